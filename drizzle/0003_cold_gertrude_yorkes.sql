@@ -0,0 +1 @@
+ALTER TABLE `device_tokens` ADD `auth_session_id` text REFERENCES auth_sessions(id) ON DELETE set null;
\ No newline at end of file
@@ -0,0 +1,15 @@
+CREATE TABLE `user_identities` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`user_id` integer NOT NULL,
+	`provider` text NOT NULL,
+	`subject` text NOT NULL,
+	`email` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`last_used_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `provider_subject_unq` ON `user_identities` (`provider`,`subject`);--> statement-breakpoint
+-- Backfill existing Sign in with Apple users
+INSERT INTO `user_identities` (`user_id`, `provider`, `subject`, `email`)
+SELECT `id`, 'apple', `apple_id`, `email` FROM `users` WHERE `apple_id` IS NOT NULL;
\ No newline at end of file
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `deletion_scheduled_at` integer;
\ No newline at end of file
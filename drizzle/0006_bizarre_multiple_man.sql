@@ -0,0 +1,12 @@
+CREATE TABLE `data_exports` (
+	`id` text PRIMARY KEY NOT NULL,
+	`user_id` integer NOT NULL,
+	`format` text NOT NULL,
+	`status` text DEFAULT 'pending' NOT NULL,
+	`object_key` text,
+	`error` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	`completed_at` integer,
+	`expires_at` integer,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `avatar_key` text;
\ No newline at end of file
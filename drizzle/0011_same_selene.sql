@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `stats_visibility` text DEFAULT 'friends' NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `searchable` integer DEFAULT true NOT NULL;
\ No newline at end of file
@@ -0,0 +1,2 @@
+ALTER TABLE `users` ADD `availability` text DEFAULT 'available' NOT NULL;--> statement-breakpoint
+ALTER TABLE `users` ADD `availability_expires_at` integer;
\ No newline at end of file
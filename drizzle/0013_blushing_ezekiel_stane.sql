@@ -0,0 +1,4 @@
+ALTER TABLE `users` ADD `timezone` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `quiet_hours_start` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `quiet_hours_end` text;--> statement-breakpoint
+ALTER TABLE `users` ADD `quiet_hours_mode` text DEFAULT 'silent' NOT NULL;
\ No newline at end of file
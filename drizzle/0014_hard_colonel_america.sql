@@ -0,0 +1,8 @@
+CREATE TABLE `notification_preferences` (
+	`user_id` integer NOT NULL,
+	`type` text NOT NULL,
+	`enabled` integer NOT NULL,
+	`updated_at` integer DEFAULT (unixepoch()) NOT NULL,
+	PRIMARY KEY(`user_id`, `type`),
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
@@ -0,0 +1,5 @@
+ALTER TABLE `device_tokens` ADD `apns_environment` text;--> statement-breakpoint
+ALTER TABLE `device_tokens` ADD `app_version` text;--> statement-breakpoint
+ALTER TABLE `device_tokens` ADD `os_version` text;--> statement-breakpoint
+ALTER TABLE `device_tokens` ADD `device_name` text;--> statement-breakpoint
+ALTER TABLE `device_tokens` ADD `locale` text;
\ No newline at end of file
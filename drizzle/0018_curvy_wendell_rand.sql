@@ -0,0 +1 @@
+ALTER TABLE `users` ADD `locale` text;
\ No newline at end of file
@@ -0,0 +1,13 @@
+CREATE TABLE `live_activity_tokens` (
+	`id` integer PRIMARY KEY AUTOINCREMENT NOT NULL,
+	`session_id` integer NOT NULL,
+	`user_id` integer NOT NULL,
+	`token` text NOT NULL,
+	`apns_environment` text,
+	`created_at` integer DEFAULT (unixepoch()) NOT NULL,
+	FOREIGN KEY (`session_id`) REFERENCES `smoking_sessions`(`id`) ON UPDATE no action ON DELETE cascade,
+	FOREIGN KEY (`user_id`) REFERENCES `users`(`id`) ON UPDATE no action ON DELETE cascade
+);
+--> statement-breakpoint
+CREATE UNIQUE INDEX `live_activity_tokens_token_unique` ON `live_activity_tokens` (`token`);--> statement-breakpoint
+CREATE INDEX `live_activity_tokens_session_id_idx` ON `live_activity_tokens` (`session_id`);
\ No newline at end of file
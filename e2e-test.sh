@@ -3,33 +3,42 @@ set -euo pipefail
 
 API_BASE_URL="http://localhost:8787"
 
+# ID tokens are minted by the local identity provider. Set it up once with:
+#   npx tsx scripts/local-idp.ts keygen >> .dev.vars
+# and restart `npm run dev` so the worker picks up LOCAL_IDP_JWKS.
+local_id_token() {
+  npx tsx scripts/local-idp.ts sign "$@"
+}
+
 echo "--- 1. Health Check ---"
 curl -s "${API_BASE_URL}/"
 echo -e "\n"
 
 echo "--- 2. Auth Users ---"
 # User 1
+ID_TOKEN=$(local_id_token simulated-unique-apple-id-12345 test.user.12345@example.com)
 resp=$(curl -s -X POST "${API_BASE_URL}/auth/apple" \
   -H "Content-Type: application/json" \
-  -d '{
-    "idToken":"simulated-unique-apple-id-12345",
-    "firstName":"Test",
-    "lastName":"User",
-    "email":"test.user.12345@example.com"
-  }')
+  -d "{
+    \"idToken\":\"${ID_TOKEN}\",
+    \"firstName\":\"Test\",
+    \"lastName\":\"User\",
+    \"email\":\"test.user.12345@example.com\"
+  }")
 echo "${resp}" | jq
 USER1_TOKEN=$(echo "${resp}" | jq -r .token)
 USER1_ID=$(echo "${resp}" | jq -r .userId)
 
 # User 2
+ID_TOKEN=$(local_id_token simulated-unique-apple-id-123451 test.user2.12345@example.com)
 resp=$(curl -s -X POST "${API_BASE_URL}/auth/apple" \
   -H "Content-Type: application/json" \
-  -d '{
-    "idToken":"simulated-unique-apple-id-123451",
-    "firstName":"Test2",
-    "lastName":"User2",
-    "email":"test.user2.12345@example.com"
-  }')
+  -d "{
+    \"idToken\":\"${ID_TOKEN}\",
+    \"firstName\":\"Test2\",
+    \"lastName\":\"User2\",
+    \"email\":\"test.user2.12345@example.com\"
+  }")
 echo "${resp}" | jq
 USER2_TOKEN=$(echo "${resp}" | jq -r .token)
 USER2_ID=$(echo "${resp}" | jq -r .userId)
@@ -0,0 +1,75 @@
+// scripts/local-idp.ts
+// Offline stand-in for Sign in with Apple during local development.
+//
+//   npx tsx scripts/local-idp.ts keygen >> .dev.vars
+//   npx tsx scripts/local-idp.ts sign <subject> [email]
+//
+// `keygen` prints a key pair as .dev.vars entries. The worker only reads the
+// public LOCAL_IDP_JWKS, and only with ENVIRONMENT=development (also printed);
+// `sign` uses LOCAL_IDP_PRIVATE_JWK to mint ID tokens that POST /auth/apple
+// accepts while the local provider is enabled.
+import { config } from "dotenv";
+import * as jose from "jose";
+
+config({ path: ".dev.vars" });
+
+const DEFAULT_ISSUER = "https://local-idp.teman-sebat.invalid"; // Matches LOCAL_IDP_DEFAULT_ISSUER
+const DEFAULT_AUDIENCE = "com.yoshi.TemanNongki"; // APPLE_BUNDLE_ID in wrangler.jsonc
+const ALGORITHM = "ES256";
+
+const keygen = async () => {
+    const { publicKey, privateKey } = await jose.generateKeyPair(ALGORITHM, {
+        extractable: true,
+    });
+    const kid = crypto.randomUUID();
+    const publicJwk = { ...(await jose.exportJWK(publicKey)), kid, alg: ALGORITHM, use: "sig" };
+    const privateJwk = { ...(await jose.exportJWK(privateKey)), kid, alg: ALGORITHM };
+
+    console.log("ENVIRONMENT=development");
+    console.log(`LOCAL_IDP_JWKS='${JSON.stringify({ keys: [publicJwk] })}'`);
+    console.log(`LOCAL_IDP_PRIVATE_JWK='${JSON.stringify(privateJwk)}'`);
+};
+
+const sign = async (subject: string | undefined, email: string | undefined) => {
+    if (!subject) {
+        throw new Error("Usage: local-idp.ts sign <subject> [email]");
+    }
+    const rawJwk = process.env.LOCAL_IDP_PRIVATE_JWK;
+    if (!rawJwk) {
+        throw new Error("LOCAL_IDP_PRIVATE_JWK is not set. Run `keygen` first.");
+    }
+
+    const privateJwk = JSON.parse(rawJwk);
+    const privateKey = await jose.importJWK(privateJwk, ALGORITHM);
+
+    const token = await new jose.SignJWT({
+        ...(email && { email, email_verified: true }),
+    })
+        .setProtectedHeader({ alg: ALGORITHM, kid: privateJwk.kid })
+        .setIssuer(process.env.LOCAL_IDP_ISSUER || DEFAULT_ISSUER)
+        .setAudience(process.env.LOCAL_IDP_AUDIENCE || DEFAULT_AUDIENCE)
+        .setSubject(subject)
+        .setIssuedAt()
+        .setExpirationTime("10m")
+        .sign(privateKey);
+
+    console.log(token);
+};
+
+const [command, ...args] = process.argv.slice(2);
+
+const run = async () => {
+    switch (command) {
+        case "keygen":
+            return keygen();
+        case "sign":
+            return sign(args[0], args[1]);
+        default:
+            throw new Error("Usage: local-idp.ts <keygen|sign> [...args]");
+    }
+};
+
+run().catch((error) => {
+    console.error(error.message);
+    process.exit(1);
+});
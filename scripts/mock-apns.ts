@@ -0,0 +1,156 @@
+// scripts/mock-apns.ts
+// Offline stand-in for Apple Push Notification service during local development.
+//
+//   npx tsx scripts/mock-apns.ts keygen >> .dev.vars
+//   npx tsx scripts/mock-apns.ts serve [port]
+//
+// `keygen` prints a throwaway signing key and points APNS_HOST at the mock.
+// `serve` accepts every notification, except that the device token's prefix
+// selects an APNS error, so token cleanup can be exercised end to end:
+//
+//   unregistered-...  410 Unregistered (timestamp: now)
+//   bad-...           400 BadDeviceToken
+//   wrong-topic-...   400 DeviceTokenNotForTopic
+//   throttled-...     429 TooManyRequests
+//   down-...          503 ServiceUnavailable
+//   expired-jwt-...   403 ExpiredProviderToken (the server signs a new provider token)
+//
+// `GET /requests` lists the notifications received so far and `DELETE /requests`
+// clears them; the tests start the mock through `startMockApns`.
+import { type Server, createServer } from "node:http";
+import { pathToFileURL } from "node:url";
+import * as jose from "jose";
+
+const DEFAULT_PORT = 8788; // Next to `wrangler dev` on 8787
+
+// Token prefix -> HTTP status and APNS reason
+const ERROR_PREFIXES: [string, number, string][] = [
+    ["unregistered-", 410, "Unregistered"],
+    ["bad-", 400, "BadDeviceToken"],
+    ["wrong-topic-", 400, "DeviceTokenNotForTopic"],
+    ["throttled-", 429, "TooManyRequests"],
+    ["down-", 503, "ServiceUnavailable"],
+    ["expired-jwt-", 403, "ExpiredProviderToken"],
+];
+
+// A notification as the mock received it
+export interface MockApnsRequest {
+    token: string;
+    topic: string | undefined;
+    pushType: string | undefined;
+    providerToken: string; // The JWT from the authorization header
+    status: number;
+    payload: any;
+}
+
+/**
+ * Generates a throwaway signing key.
+ * @returns The APNS bindings pointing the worker at a mock on `port`.
+ */
+export const createMockApnsBindings = async (port: number) => {
+    const { privateKey } = await jose.generateKeyPair("ES256", { extractable: true });
+    const pem = await jose.exportPKCS8(privateKey);
+    return {
+        APNS_KEY_ID: "MOCKKEY123",
+        APNS_TEAM_ID: "MOCKTEAM12",
+        APNS_PRIVATE_KEY_BASE64: Buffer.from(pem).toString("base64"),
+        APNS_HOST: `http://127.0.0.1:${port}`,
+    };
+};
+
+const keygen = async (port: number) => {
+    for (const [name, value] of Object.entries(await createMockApnsBindings(port))) {
+        console.log(`${name}=${value}`);
+    }
+};
+
+/**
+ * Starts the mock on `port` (0 picks a free one).
+ * @returns The listening server.
+ */
+export const startMockApns = (port: number): Promise<Server> => {
+    const received: MockApnsRequest[] = [];
+
+    const server = createServer((req, res) => {
+        if (req.url === "/requests") {
+            if (req.method === "DELETE") {
+                received.length = 0;
+            }
+            res.writeHead(200, { "content-type": "application/json" });
+            res.end(JSON.stringify(received));
+            return;
+        }
+
+        const match = req.url?.match(/^\/3\/device\/([^/?]+)$/);
+        if (req.method !== "POST" || !match) {
+            res.writeHead(404).end();
+            return;
+        }
+
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            const token = decodeURIComponent(match[1]);
+            const error = ERROR_PREFIXES.find(([prefix]) => token.startsWith(prefix));
+            const payload = body ? JSON.parse(body) : {};
+            const jwt = req.headers.authorization?.slice("bearer ".length) ?? "";
+            console.log(
+                `${error ? error[1] : 200} ${token} [${req.headers["apns-topic"]}] ${payload.notificationType ?? ""} (jwt ...${jwt.slice(-8)})`,
+            );
+            received.push({
+                token,
+                topic: req.headers["apns-topic"] as string | undefined,
+                pushType: req.headers["apns-push-type"] as string | undefined,
+                providerToken: jwt,
+                status: error ? error[1] : 200,
+                payload,
+            });
+
+            if (!req.headers.authorization?.startsWith("bearer ")) {
+                res.writeHead(403, { "content-type": "application/json" });
+                res.end(JSON.stringify({ reason: "MissingProviderToken" }));
+            } else if (error) {
+                const [, status, reason] = error;
+                res.writeHead(status, { "content-type": "application/json" });
+                res.end(
+                    JSON.stringify(
+                        status === 410 ? { reason, timestamp: Date.now() } : { reason },
+                    ),
+                );
+            } else {
+                res.writeHead(200, { "apns-id": crypto.randomUUID() }).end();
+            }
+        });
+    });
+
+    return new Promise((resolve) =>
+        server.listen(port, () => resolve(server)),
+    );
+};
+
+const serve = async (port: number) => {
+    await startMockApns(port);
+    console.log(`Mock APNS listening on http://127.0.0.1:${port}`);
+};
+
+const run = async () => {
+    const [command, portArg] = process.argv.slice(2);
+    const port = Number(portArg) || DEFAULT_PORT;
+
+    switch (command) {
+        case "keygen":
+            return keygen(port);
+        case "serve":
+            return serve(port);
+        default:
+            throw new Error("Usage: mock-apns.ts <keygen|serve> [port]");
+    }
+};
+
+// Run as a CLI only, not when imported by the tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    run().catch((error) => {
+        console.error(error.message);
+        process.exit(1);
+    });
+}
@@ -0,0 +1,176 @@
+// scripts/mock-fcm.ts
+// Offline stand-in for Firebase Cloud Messaging (HTTP v1) during local development.
+//
+//   npx tsx scripts/mock-fcm.ts keygen >> .dev.vars
+//   npx tsx scripts/mock-fcm.ts serve [port]
+//
+// `keygen` prints a throwaway service account whose token_uri is the mock's
+// OAuth endpoint, and points FCM_HOST at the mock. `serve` issues access tokens
+// and accepts every message, except that the registration token's prefix
+// selects an FCM error:
+//
+//   unregistered-     404 UNREGISTERED
+//   sender-mismatch-  403 SENDER_ID_MISMATCH
+//   throttled-        429 QUOTA_EXCEEDED
+//   down-             503 UNAVAILABLE
+//
+// `GET /requests` lists the access tokens issued and messages received so far
+// and `DELETE /requests` clears them; the tests start the mock through
+// `startMockFcm`.
+import { type Server, createServer } from "node:http";
+import { pathToFileURL } from "node:url";
+import * as jose from "jose";
+
+const DEFAULT_PORT = 8789; // Next to mock-apns on 8788
+const PROJECT_ID = "teman-sebat-local";
+
+// Token prefix -> HTTP status, google.rpc status and FCM error code
+const ERROR_PREFIXES: [string, number, string, string][] = [
+    ["unregistered-", 404, "NOT_FOUND", "UNREGISTERED"],
+    ["sender-mismatch-", 403, "PERMISSION_DENIED", "SENDER_ID_MISMATCH"],
+    ["throttled-", 429, "RESOURCE_EXHAUSTED", "QUOTA_EXCEEDED"],
+    ["down-", 503, "UNAVAILABLE", "UNAVAILABLE"],
+];
+
+// What the mock has seen since it started (or was last cleared)
+export interface MockFcmRequests {
+    accessTokens: string[]; // In the order they were issued
+    messages: { token: string; accessToken: string; status: number; message: any }[];
+}
+
+/**
+ * Generates a throwaway service account.
+ * @returns The FCM bindings pointing the worker at a mock on `port`.
+ */
+export const createMockFcmBindings = async (port: number) => {
+    const { privateKey } = await jose.generateKeyPair("RS256", { extractable: true });
+    const account = {
+        type: "service_account",
+        project_id: PROJECT_ID,
+        client_email: `mock@${PROJECT_ID}.iam.gserviceaccount.com`,
+        private_key: await jose.exportPKCS8(privateKey),
+        token_uri: `http://127.0.0.1:${port}/token`,
+    };
+    return {
+        FCM_SERVICE_ACCOUNT_BASE64: Buffer.from(JSON.stringify(account)).toString("base64"),
+        FCM_HOST: `http://127.0.0.1:${port}`,
+    };
+};
+
+const keygen = async (port: number) => {
+    for (const [name, value] of Object.entries(await createMockFcmBindings(port))) {
+        console.log(`${name}=${value}`);
+    }
+};
+
+/**
+ * Starts the mock on `port` (0 picks a free one).
+ * @returns The listening server.
+ */
+export const startMockFcm = (port: number): Promise<Server> => {
+    const received: MockFcmRequests = { accessTokens: [], messages: [] };
+    const issued = new Set<string>();
+
+    const server = createServer((req, res) => {
+        let body = "";
+        req.on("data", (chunk) => (body += chunk));
+        req.on("end", () => {
+            const json = (status: number, value: unknown) => {
+                res.writeHead(status, { "content-type": "application/json" });
+                res.end(JSON.stringify(value));
+            };
+
+            if (req.url === "/requests") {
+                if (req.method === "DELETE") {
+                    received.accessTokens.length = 0;
+                    received.messages.length = 0;
+                }
+                return json(200, received);
+            }
+
+            if (req.method === "POST" && req.url === "/token") {
+                const params = new URLSearchParams(body);
+                const claims = jose.decodeJwt(params.get("assertion") ?? "");
+                console.log(`token issued to ${claims.iss} (scope: ${claims.scope})`);
+                const accessToken = `mock-${crypto.randomUUID()}`;
+                issued.add(accessToken);
+                received.accessTokens.push(accessToken);
+                return json(200, {
+                    access_token: accessToken,
+                    expires_in: 3599,
+                    token_type: "Bearer",
+                });
+            }
+
+            const match = req.url?.match(/^\/v1\/projects\/([^/]+)\/messages:send$/);
+            if (req.method !== "POST" || !match) {
+                return json(404, { error: { code: 404, status: "NOT_FOUND" } });
+            }
+            const accessToken = req.headers.authorization?.slice("Bearer ".length) ?? "";
+            if (!issued.has(accessToken)) {
+                return json(401, { error: { code: 401, status: "UNAUTHENTICATED" } });
+            }
+
+            const { message } = JSON.parse(body);
+            const error = ERROR_PREFIXES.find(([prefix]) => message.token.startsWith(prefix));
+            console.log(
+                `${error ? error[1] : 200} ${message.token} ${message.data?.notificationType ?? ""} ` +
+                    `[${message.android?.priority}] ${message.notification?.body ?? ""}`,
+            );
+            received.messages.push({
+                token: message.token,
+                accessToken,
+                status: error ? error[1] : 200,
+                message,
+            });
+
+            if (error) {
+                const [, code, status, errorCode] = error;
+                return json(code, {
+                    error: {
+                        code,
+                        status,
+                        details: [
+                            {
+                                "@type": "type.googleapis.com/google.firebase.fcm.v1.FcmError",
+                                errorCode,
+                            },
+                        ],
+                    },
+                });
+            }
+            json(200, { name: `projects/${match[1]}/messages/${crypto.randomUUID()}` });
+        });
+    });
+
+    return new Promise((resolve) =>
+        server.listen(port, () => resolve(server)),
+    );
+};
+
+const serve = async (port: number) => {
+    await startMockFcm(port);
+    console.log(`Mock FCM listening on http://127.0.0.1:${port}`);
+};
+
+const run = async () => {
+    const [command, portArg] = process.argv.slice(2);
+    const port = Number(portArg) || DEFAULT_PORT;
+
+    switch (command) {
+        case "keygen":
+            return keygen(port);
+        case "serve":
+            return serve(port);
+        default:
+            throw new Error("Usage: mock-fcm.ts <keygen|serve> [port]");
+    }
+};
+
+// Run as a CLI only, not when imported by the tests
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+    run().catch((error) => {
+        console.error(error.message);
+        process.exit(1);
+    });
+}
@@ -5,7 +5,9 @@ import {
     text,
     primaryKey,
     uniqueIndex,
+    index,
 } from "drizzle-orm/sqlite-core";
+import type { ApnsPayload } from "../lib/apns";
 
 // Users Table
 export const users = sqliteTable(
@@ -18,14 +20,57 @@ export const users = sqliteTable(
         // Store hashed passwords, never plaintext
         passwordHash: text("password_hash"),
         // Apple ID for Sign in with Apple
+        // Superseded by user_identities (provider 'apple'); kept for existing rows
         appleId: text("apple_id").unique(),
         // User's full name (from Apple or manually entered)
         fullName: text("full_name"),
         // User's email (optional, from Apple or manually entered)
         email: text("email").unique(),
+        // R2 object key of the profile picture ('avatars/<userId>/<sha256>.<ext>')
+        avatarKey: text("avatar_key"),
         createdAt: integer("created_at", { mode: "timestamp" })
             .notNull()
             .default(sql`(unixepoch())`), // Use SQLite function for current timestamp
+        // Set when the user requested account deletion; hard-deleted after this time
+        deletionScheduledAt: integer("deletion_scheduled_at", { mode: "timestamp" }),
+        // 'user' or 'admin' (admins can use the /admin moderation API)
+        role: text("role", { enum: ["user", "admin"] })
+            .notNull()
+            .default("user"),
+        // Set while the account is suspended by a moderator
+        suspendedAt: integer("suspended_at", { mode: "timestamp" }),
+        suspendedReason: text("suspended_reason"),
+        // 'available', 'busy', 'in_class' or 'do_not_disturb'; gates notifications
+        availability: text("availability", {
+            enum: ["available", "busy", "in_class", "do_not_disturb"],
+        })
+            .notNull()
+            .default("available"),
+        // The status reverts to 'available' after this time (null = until changed)
+        availabilityExpiresAt: integer("availability_expires_at", {
+            mode: "timestamp",
+        }),
+        // IANA timezone (e.g. 'Asia/Jakarta') used to evaluate quiet hours
+        timezone: text("timezone"),
+        // Quiet hours window in local 'HH:MM' time; may cross midnight
+        quietHoursStart: text("quiet_hours_start"),
+        quietHoursEnd: text("quiet_hours_end"),
+        // 'silent' delivers passive notifications during quiet hours, 'skip' drops them
+        quietHoursMode: text("quiet_hours_mode", { enum: ["silent", "skip"] })
+            .notNull()
+            .default("silent"),
+        // Language of notifications; null follows each device's locale
+        locale: text("locale", { enum: ["en", "id"] }),
+        // Privacy: who can see session stats on the public profile
+        statsVisibility: text("stats_visibility", {
+            enum: ["everyone", "friends", "nobody"],
+        })
+            .notNull()
+            .default("friends"),
+        // Privacy: whether the account shows up in /friends/search
+        searchable: integer("searchable", { mode: "boolean" })
+            .notNull()
+            .default(true),
     },
     (table) => {
         return {
@@ -34,6 +79,41 @@ export const users = sqliteTable(
     },
 );
 
+// User Identities Table
+// External login identities (Apple, Google, other OIDC issuers) linked to a user
+export const userIdentities = sqliteTable(
+    "user_identities",
+    {
+        id: integer("id", { mode: "number" }).primaryKey({
+            autoIncrement: true,
+        }),
+        userId: integer("user_id", { mode: "number" })
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        // Provider identifier, e.g. 'apple', 'google'
+        provider: text("provider").notNull(),
+        // The provider's stable user ID ('sub' claim)
+        subject: text("subject").notNull(),
+        // Verified email reported by the provider, if any
+        email: text("email"),
+        createdAt: integer("created_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+        lastUsedAt: integer("last_used_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+    },
+    (table) => {
+        return {
+            // A provider account can only belong to one user
+            providerSubjectUnq: uniqueIndex("provider_subject_unq").on(
+                table.provider,
+                table.subject,
+            ),
+        };
+    },
+);
+
 // Friendships Table
 // Represents the connection between two users
 export const friendships = sqliteTable(
@@ -119,11 +199,277 @@ export const deviceTokens = sqliteTable("device_tokens", {
     token: text("token").notNull().unique(),
     // 'ios', 'android' (though we start with ios)
     platform: text("platform", { enum: ["ios", "android"] }).notNull(),
+    // Auth session that registered this token, so signing out a device stops its pushes
+    authSessionId: text("auth_session_id").references(() => authSessions.id, {
+        onDelete: "set null",
+    }),
+    // APNS host the token belongs to: TestFlight/debug builds use 'development',
+    // App Store builds 'production'. Null falls back to APNS_ENVIRONMENT.
+    apnsEnvironment: text("apns_environment", {
+        enum: ["development", "production"],
+    }),
+    // Device details reported by the app, shown in the device list
+    appVersion: text("app_version"),
+    osVersion: text("os_version"),
+    deviceName: text("device_name"),
+    locale: text("locale"), // BCP 47 tag, e.g. "id-ID"
     lastUpdated: integer("last_updated", { mode: "timestamp" })
         .notNull()
         .default(sql`(unixepoch())`),
 });
 
+// Live Activity Tokens Table
+// Push tokens of iOS Live Activities following a smoking session, one per activity
+export const liveActivityTokens = sqliteTable(
+    "live_activity_tokens",
+    {
+        id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+        sessionId: integer("session_id", { mode: "number" })
+            .notNull()
+            .references(() => smokingSessions.id, { onDelete: "cascade" }),
+        // The user whose device shows the activity
+        userId: integer("user_id", { mode: "number" })
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        token: text("token").notNull().unique(),
+        // Null falls back to APNS_ENVIRONMENT, as for device tokens
+        apnsEnvironment: text("apns_environment", {
+            enum: ["development", "production"],
+        }),
+        createdAt: integer("created_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+    },
+    (table) => {
+        return {
+            // Updates go to every activity of a session
+            sessionIdIdx: index("live_activity_tokens_session_id_idx").on(table.sessionId),
+        };
+    },
+);
+
+// Auth Sessions Table
+// One row per login (refresh token family). The refresh token is rotated on
+// every use; only the hash of the current token is stored.
+export const authSessions = sqliteTable("auth_sessions", {
+    // Random UUID, also embedded in access tokens as the `sid` claim
+    id: text("id").primaryKey(),
+    userId: integer("user_id", { mode: "number" })
+        .notNull()
+        .references(() => users.id, { onDelete: "cascade" }),
+    // SHA-256 hash of the current (unused) refresh token secret
+    refreshTokenHash: text("refresh_token_hash").notNull(),
+    userAgent: text("user_agent"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+        .notNull()
+        .default(sql`(unixepoch())`),
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" })
+        .notNull()
+        .default(sql`(unixepoch())`),
+    expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    // Null while the session is active
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+    // 'logout', 'logout_all', 'reuse_detected', ...
+    revokedReason: text("revoked_reason"),
+});
+
+// Personal Access Tokens Table
+// Long-lived, scoped tokens for widgets, Shortcuts and other integrations.
+// Only the hash of the token secret is stored.
+export const personalAccessTokens = sqliteTable("personal_access_tokens", {
+    // Random UUID, the first part of the `tspat_<id>.<secret>` token
+    id: text("id").primaryKey(),
+    userId: integer("user_id", { mode: "number" })
+        .notNull()
+        .references(() => users.id, { onDelete: "cascade" }),
+    // Label chosen by the user, e.g. "Raycast"
+    name: text("name").notNull(),
+    // SHA-256 hash of the token secret
+    tokenHash: text("token_hash").notNull(),
+    // Granted scopes, e.g. ["sessions:read", "friends:read"]
+    scopes: text("scopes", { mode: "json" }).$type<string[]>().notNull(),
+    createdAt: integer("created_at", { mode: "timestamp" })
+        .notNull()
+        .default(sql`(unixepoch())`),
+    lastUsedAt: integer("last_used_at", { mode: "timestamp" }),
+    // Null for tokens that never expire
+    expiresAt: integer("expires_at", { mode: "timestamp" }),
+    revokedAt: integer("revoked_at", { mode: "timestamp" }),
+});
+
+// Notification Preferences Table
+// One row per user and notification type the user changed; a missing row means enabled
+export const notificationPreferences = sqliteTable(
+    "notification_preferences",
+    {
+        userId: integer("user_id", { mode: "number" })
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        // 'new_session', 'session_ended', 'session_response', 'friend_request', ...
+        type: text("type").notNull(),
+        enabled: integer("enabled", { mode: "boolean" }).notNull(),
+        updatedAt: integer("updated_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+    },
+    (table) => {
+        return {
+            pk: primaryKey({ columns: [table.userId, table.type] }),
+        };
+    },
+);
+
+// Data Exports Table
+// Tracks personal data export jobs; finished archives are stored in R2
+export const dataExports = sqliteTable("data_exports", {
+    // Random UUID, used in the status/download URLs
+    id: text("id").primaryKey(),
+    userId: integer("user_id", { mode: "number" })
+        .notNull()
+        .references(() => users.id, { onDelete: "cascade" }),
+    format: text("format", { enum: ["json", "csv"] }).notNull(),
+    status: text("status", {
+        enum: ["pending", "processing", "completed", "failed"],
+    })
+        .notNull()
+        .default("pending"),
+    // R2 object key of the finished archive
+    objectKey: text("object_key"),
+    error: text("error"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+        .notNull()
+        .default(sql`(unixepoch())`),
+    completedAt: integer("completed_at", { mode: "timestamp" }),
+    // Download link stops working after this time
+    expiresAt: integer("expires_at", { mode: "timestamp" }),
+});
+
+// Rate Limit Counters Table
+// Fixed-window hit counters backing the sliding-window rate limiter
+export const rateLimitCounters = sqliteTable(
+    "rate_limit_counters",
+    {
+        // '<group>:<user|ip>:<id>'
+        key: text("key").notNull(),
+        // Window start in seconds since epoch
+        windowStart: integer("window_start", { mode: "number" }).notNull(),
+        count: integer("count", { mode: "number" }).notNull().default(0),
+        // Row can be deleted after this time
+        expiresAt: integer("expires_at", { mode: "timestamp" }).notNull(),
+    },
+    (table) => {
+        return {
+            pk: primaryKey({ columns: [table.key, table.windowStart] }),
+        };
+    },
+);
+
+// Notification Outbox Table
+// One row per device to notify. Routes insert rows and return; the rows are
+// sent right after the response and retried by the scheduled handler.
+export const notificationOutbox = sqliteTable(
+    "notification_outbox",
+    {
+        id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+        // Recipient
+        userId: integer("user_id", { mode: "number" })
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        // Device snapshot at enqueue time; the token row may be gone by the time we send
+        token: text("token").notNull(),
+        platform: text("platform", { enum: ["ios", "android"] }).notNull(),
+        apnsEnvironment: text("apns_environment", {
+            enum: ["development", "production"],
+        }),
+        // 'new_session', 'friend_request', ... (see NOTIFICATION_TYPES)
+        type: text("type").notNull(),
+        // Final payload, already adjusted for the recipient's quiet hours
+        payload: text("payload", { mode: "json" }).$type<ApnsPayload>().notNull(),
+        // 'failed' rows are dead letters: out of attempts or permanently rejected
+        status: text("status", {
+            enum: ["pending", "sending", "delivered", "failed"],
+        })
+            .notNull()
+            .default("pending"),
+        attempts: integer("attempts", { mode: "number" }).notNull().default(0),
+        // Pending rows are sent once this time has passed (backoff between attempts)
+        nextAttemptAt: integer("next_attempt_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+        // Provider reason of the last failed attempt, e.g. 'TooManyRequests'
+        lastError: text("last_error"),
+        createdAt: integer("created_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+        updatedAt: integer("updated_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+        deliveredAt: integer("delivered_at", { mode: "timestamp" }),
+    },
+    (table) => {
+        return {
+            // The dispatcher looks up due rows by status and time
+            statusNextAttemptIdx: index("outbox_status_next_attempt_idx").on(
+                table.status,
+                table.nextAttemptAt,
+            ),
+        };
+    },
+);
+
+// Notifications Table
+// In-app inbox: one row per notification sent to a user, however many devices received it
+export const notifications = sqliteTable(
+    "notifications",
+    {
+        id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+        // Recipient
+        userId: integer("user_id", { mode: "number" })
+            .notNull()
+            .references(() => users.id, { onDelete: "cascade" }),
+        // 'new_session', 'friend_request', ... (see NOTIFICATION_TYPES)
+        type: text("type").notNull(),
+        title: text("title"),
+        body: text("body").notNull(),
+        // Custom payload fields (sessionId, initiatorId, ...) for routing in the app
+        data: text("data", { mode: "json" }).$type<Record<string, unknown>>().notNull(),
+        readAt: integer("read_at", { mode: "timestamp" }),
+        createdAt: integer("created_at", { mode: "timestamp" })
+            .notNull()
+            .default(sql`(unixepoch())`),
+    },
+    (table) => {
+        return {
+            // The inbox is paged newest first by ID
+            userIdIdx: index("notifications_user_id_idx").on(table.userId, table.id),
+            // Unread counts for badges
+            userReadAtIdx: index("notifications_user_read_at_idx").on(
+                table.userId,
+                table.readAt,
+            ),
+        };
+    },
+);
+
+// Admin Audit Log Table
+// Every action taken through the /admin API
+export const adminAuditLog = sqliteTable("admin_audit_log", {
+    id: integer("id", { mode: "number" }).primaryKey({ autoIncrement: true }),
+    // Kept when the admin account is deleted
+    adminId: integer("admin_id", { mode: "number" }).references(() => users.id, {
+        onDelete: "set null",
+    }),
+    // e.g. 'user.suspend', 'session.end', 'device.delete'
+    action: text("action").notNull(),
+    targetType: text("target_type").notNull(),
+    targetId: text("target_id").notNull(),
+    // JSON-encoded extra details (reason, previous values, ...)
+    details: text("details"),
+    createdAt: integer("created_at", { mode: "timestamp" })
+        .notNull()
+        .default(sql`(unixepoch())`),
+});
+
 // --- Define Relations ---
 
 export const usersRelations = relations(users, ({ many }) => ({
@@ -137,6 +483,28 @@ export const usersRelations = relations(users, ({ many }) => ({
     sessionResponses: many(sessionResponses),
     // A user can have multiple device tokens (though often just one per platform)
     deviceTokens: many(deviceTokens),
+    // A user can be signed in on many devices
+    authSessions: many(authSessions),
+    // A user can sign in with several identity providers
+    identities: many(userIdentities),
+    // A user can create personal access tokens for integrations
+    personalAccessTokens: many(personalAccessTokens),
+    // A user can turn individual notification types off
+    notificationPreferences: many(notificationPreferences),
+    // Notifications queued for the user's devices
+    notificationOutbox: many(notificationOutbox),
+    // The user's notification inbox
+    notifications: many(notifications),
+    // Live Activities on the user's devices
+    liveActivityTokens: many(liveActivityTokens),
+}));
+
+export const userIdentitiesRelations = relations(userIdentities, ({ one }) => ({
+    // Relation back to the user owning the identity
+    user: one(users, {
+        fields: [userIdentities.userId],
+        references: [users.id],
+    }),
 }));
 
 export const friendshipsRelations = relations(friendships, ({ one }) => ({
@@ -164,6 +532,8 @@ export const smokingSessionsRelations = relations(
         }),
         // A session can have many responses
         responses: many(sessionResponses),
+        // Live Activities following the session
+        liveActivityTokens: many(liveActivityTokens),
     }),
 );
 
@@ -189,4 +559,84 @@ export const deviceTokensRelations = relations(deviceTokens, ({ one }) => ({
         fields: [deviceTokens.userId],
         references: [users.id],
     }),
+    // Relation back to the auth session that registered the token
+    authSession: one(authSessions, {
+        fields: [deviceTokens.authSessionId],
+        references: [authSessions.id],
+    }),
+}));
+
+export const authSessionsRelations = relations(authSessions, ({ one, many }) => ({
+    // Relation back to the user owning the session
+    user: one(users, {
+        fields: [authSessions.userId],
+        references: [users.id],
+    }),
+    // Push tokens registered from this session
+    deviceTokens: many(deviceTokens),
+}));
+
+export const personalAccessTokensRelations = relations(
+    personalAccessTokens,
+    ({ one }) => ({
+        // Relation back to the user owning the token
+        user: one(users, {
+            fields: [personalAccessTokens.userId],
+            references: [users.id],
+        }),
+    }),
+);
+
+export const notificationPreferencesRelations = relations(
+    notificationPreferences,
+    ({ one }) => ({
+        // Relation back to the user owning the preference
+        user: one(users, {
+            fields: [notificationPreferences.userId],
+            references: [users.id],
+        }),
+    }),
+);
+
+export const notificationOutboxRelations = relations(
+    notificationOutbox,
+    ({ one }) => ({
+        // Relation back to the recipient
+        user: one(users, {
+            fields: [notificationOutbox.userId],
+            references: [users.id],
+        }),
+    }),
+);
+
+export const liveActivityTokensRelations = relations(
+    liveActivityTokens,
+    ({ one }) => ({
+        // Relation back to the session the activity follows
+        session: one(smokingSessions, {
+            fields: [liveActivityTokens.sessionId],
+            references: [smokingSessions.id],
+        }),
+        // Relation back to the device owner
+        user: one(users, {
+            fields: [liveActivityTokens.userId],
+            references: [users.id],
+        }),
+    }),
+);
+
+export const notificationsRelations = relations(notifications, ({ one }) => ({
+    // Relation back to the recipient
+    user: one(users, {
+        fields: [notifications.userId],
+        references: [users.id],
+    }),
+}));
+
+export const adminAuditLogRelations = relations(adminAuditLog, ({ one }) => ({
+    // Relation back to the admin who performed the action
+    admin: one(users, {
+        fields: [adminAuditLog.adminId],
+        references: [users.id],
+    }),
 }));
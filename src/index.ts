@@ -1,14 +1,19 @@
 import { Hono } from "hono";
 import { cors } from "hono/cors";
 import { logger } from "hono/logger";
+import { HTTPException } from "hono/http-exception";
 import { createDbClient } from "./db";
 import { AppEnv } from "./types";
+import { scheduled } from "./scheduled";
 
 // Import route handlers
 import authRoutes from "./routes/auth";
 import userRoutes from "./routes/user";
 import friendRoutes from "./routes/friend";
 import smokingRoutes from "./routes/smoking";
+import adminRoutes from "./routes/admin";
+import notificationRoutes from "./routes/notification";
+import { localizeErrors } from "./lib/i18n";
 
 // Create the Hono app instance, specifying the Env type
 const app = new Hono<AppEnv>();
@@ -22,43 +27,48 @@ app.use(
     origin: "*", // Allow all for now, restrict later
     allowMethods: ["GET", "POST", "PUT", "DELETE", "PATCH", "OPTIONS"],
     allowHeaders: ["Content-Type", "Authorization"],
-    exposeHeaders: ["Content-Length", "X-Total-Count"],
+    exposeHeaders: [
+      "Content-Length",
+      "X-Total-Count",
+      "Retry-After",
+      "X-RateLimit-Limit",
+      "X-RateLimit-Remaining",
+      "X-RateLimit-Reset",
+    ],
     maxAge: 600,
   }),
 );
 
 // --- Request Body Logging Middleware ---
-app.use("*", async (c, next) => {
-  if (c.req.method === "POST") {
-    try {
-      // Read the body and log it
-      const contentType = c.req.header("Content-Type");
-
-      // Store original body parser result
-      let body;
-      if (contentType?.includes("application/json")) {
-        // Create a copy of the request to avoid consuming the body
-        const reqCopy = new Request(c.req.raw.url, {
-          method: c.req.method,
-          headers: c.req.raw.headers,
-          body: c.req.raw.clone().body
-        });
+// Credentials never reach the logs: /auth bodies are skipped and
+// secret fields elsewhere are redacted.
+const REDACTED_BODY_FIELDS = /password|token|secret/i;
 
-        body = await reqCopy.json();
-      } else {
-        // For non-JSON content types
-        const reqCopy = new Request(c.req.raw.url, {
-          method: c.req.method,
-          headers: c.req.raw.headers,
-          body: c.req.raw.clone().body
-        });
+const redactBody = (value: unknown): unknown => {
+  if (Array.isArray(value)) {
+    return value.map(redactBody);
+  }
+  if (value && typeof value === "object") {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, field]) => [
+        key,
+        REDACTED_BODY_FIELDS.test(key) ? "[REDACTED]" : redactBody(field),
+      ]),
+    );
+  }
+  return value;
+};
 
-        body = await reqCopy.text();
+app.use("*", async (c, next) => {
+  if (c.req.method === "POST" && !c.req.path.startsWith("/auth/")) {
+    try {
+      // Only JSON bodies are logged, from a clone so the handler can still read it
+      if (c.req.header("Content-Type")?.includes("application/json")) {
+        const body = await c.req.raw.clone().json();
+        console.log(`[${c.req.method}] ${c.req.path} - Request Body:`, redactBody(body));
       }
-
-      console.log(`[${c.req.method}] ${c.req.url} - Request Body:`, body);
     } catch (err) {
-      console.log(`[${c.req.method}] ${c.req.url} - Failed to log request body:`, err);
+      console.log(`[${c.req.method}] ${c.req.path} - Failed to log request body:`, err);
     }
   }
   await next();
@@ -79,6 +89,10 @@ app.use("*", async (c, next) => {
   await next();
 });
 
+// --- Localization Middleware ---
+// Picks the request locale and translates error messages
+app.use("*", localizeErrors);
+
 // --- Basic Routes ---
 app.get("/", (c) => {
   return c.text("👋 Teman Sebat API is running!");
@@ -89,13 +103,22 @@ app.route("/auth", authRoutes);
 app.route("/users", userRoutes);
 app.route("/friends", friendRoutes);
 app.route("/smoking", smokingRoutes);
+app.route("/admin", adminRoutes);
+app.route("/notifications", notificationRoutes);
 
 // --- Error Handling ---
 app.onError((err, c) => {
+  // Errors with a status (e.g. 401 from middleware) keep it
+  if (err instanceof HTTPException) {
+    return err.getResponse();
+  }
   console.error(`${err}`);
   // Basic error response
   return c.json({ error: "Internal server error", message: err.message }, 500);
 });
 
-// Export the app for Cloudflare Workers
-export default app;
+// Export the app and the Cron Trigger handler for Cloudflare Workers
+export default {
+  fetch: app.fetch,
+  scheduled,
+};
@@ -0,0 +1,96 @@
+// src/lib/account.ts
+import { and, eq, inArray, isNotNull, lte } from "drizzle-orm";
+import type { DB } from "../db";
+import { dataExports, users } from "../db/schema";
+import type { AppEnv } from "../types";
+
+// --- Account Deletion ---
+
+// Days a user can change their mind before the account is hard-deleted
+const DEFAULT_ACCOUNT_DELETION_GRACE_DAYS = 30;
+
+/**
+ * Reads the grace period from the ACCOUNT_DELETION_GRACE_DAYS binding.
+ */
+export const getDeletionGraceDays = (env: AppEnv["Bindings"]): number => {
+    const days = parseInt(env.ACCOUNT_DELETION_GRACE_DAYS || "", 10);
+    return isNaN(days) || days < 0 ? DEFAULT_ACCOUNT_DELETION_GRACE_DAYS : days;
+};
+
+/**
+ * Marks a user for deletion after the grace period.
+ * Users pending deletion are hidden from search and notification fan-out.
+ * @returns The time after which the account will be hard-deleted.
+ */
+export const scheduleAccountDeletion = async (
+    db: DB,
+    userId: number,
+    graceDays: number,
+): Promise<Date> => {
+    const deletionScheduledAt = new Date(
+        Date.now() + graceDays * 24 * 60 * 60 * 1000,
+    );
+    await db
+        .update(users)
+        .set({ deletionScheduledAt })
+        .where(eq(users.id, userId));
+    return deletionScheduledAt;
+};
+
+/**
+ * Cancels a pending deletion, e.g. because the user signed in again.
+ * @returns True if a pending deletion was cancelled.
+ */
+export const cancelAccountDeletion = async (
+    db: DB,
+    userId: number,
+): Promise<boolean> => {
+    const result = await db
+        .update(users)
+        .set({ deletionScheduledAt: null })
+        .where(and(eq(users.id, userId), isNotNull(users.deletionScheduledAt)))
+        .returning({ id: users.id });
+    return result.length > 0;
+};
+
+/**
+ * Hard-deletes every user whose grace period has passed.
+ * Sessions, responses, friendships, identities and device tokens are removed
+ * through the `onDelete: "cascade"` foreign keys; avatars and data export
+ * archives are removed from R2 when the bucket is given.
+ * @returns The IDs of the deleted users.
+ */
+export const purgeScheduledDeletions = async (
+    db: DB,
+    bucket?: R2Bucket,
+): Promise<number[]> => {
+    const due = and(
+        isNotNull(users.deletionScheduledAt),
+        lte(users.deletionScheduledAt, new Date()),
+    );
+
+    // The cascade removes the export rows, so collect their archives first
+    const exports = await db
+        .select({ objectKey: dataExports.objectKey })
+        .from(dataExports)
+        .where(
+            inArray(
+                dataExports.userId,
+                db.select({ id: users.id }).from(users).where(due),
+            ),
+        );
+
+    const deleted = await db
+        .delete(users)
+        .where(due)
+        .returning({ id: users.id, avatarKey: users.avatarKey });
+
+    const objectKeys = [
+        ...deleted.map((u) => u.avatarKey),
+        ...exports.map((e) => e.objectKey),
+    ].filter((key): key is string => !!key);
+    if (bucket && objectKeys.length > 0) {
+        await bucket.delete(objectKeys);
+    }
+    return deleted.map((u) => u.id);
+};
@@ -1,14 +1,22 @@
 // src/lib/apns.ts
 import * as jose from "jose";
 import type { AppEnv } from "../types";
+import { createDbClient } from "../db";
+import { sendFcmNotifications } from "./fcm";
+import { pruneInvalidDeviceTokens } from "./notifications";
+import { type Locale, t } from "./i18n";
+import type { QuietHoursSettings } from "./quietHours";
 
 // --- Interfaces remain the same ---
-interface ApnsConfig {
+// 'development' for sandbox (debug/TestFlight builds), 'production' for App Store builds
+export type ApnsEnvironment = "development" | "production";
+
+export interface ApnsConfig {
     keyId: string;
     teamId: string;
-    privateKey: string;
+    privateKeyBase64: string; // Base64 encoded content of the .p8 key file
     topic: string;
-    environment: "development" | "production";
+    host?: string; // Overrides the Apple host, e.g. to point at a mock server
 }
 
 export interface ApnsPayload {
@@ -19,247 +27,573 @@ export interface ApnsPayload {
             body: string;
         };
         sound?: string;
-        badge?: number;
+        badge?: number; // Unread inbox count, set per recipient by the outbox
         "content-available"?: number; // For background updates
         "mutable-content"?: number; // For Notification Service Extensions
+        "interruption-level"?: "passive" | "active" | "time-sensitive" | "critical";
     };
     // Custom data
     notificationType?: string; // Add a type for client routing
     [key: string]: any;
 }
 
+// Update for an iOS Live Activity, sent to the activity's own push token
+export interface LiveActivityPayload {
+    aps: {
+        timestamp: number; // Seconds; iOS drops updates older than the activity's current state
+        event: "update" | "end";
+        "content-state": object; // Decoded as the activity's ContentState
+        "dismissal-date"?: number; // Seconds; when an ended activity leaves the lock screen
+    };
+}
+
+// Outcome of sending one notification to one device token (APNS or FCM)
+export interface PushDeliveryResult {
+    token: string;
+    success: boolean;
+    status: number | null; // HTTP status, null if no response was received
+    reason: string | null; // Provider error reason, e.g. "BadDeviceToken" or "UNREGISTERED"
+    unregisteredAt: Date | null; // APNS 410 only: when APNS learned the token became invalid
+    invalidToken: boolean; // The token will never work again and should be removed
+    retryable: boolean; // Throttling, provider outages and network errors
+    retryAfterSeconds?: number; // From a Retry-After header, when the provider sends one
+}
+
+export interface PushSendResult {
+    successCount: number;
+    failureCount: number;
+    results: PushDeliveryResult[];
+}
+
+// Reasons meaning the token itself is dead (app uninstalled, wrong app or garbage)
+const INVALID_TOKEN_REASONS = new Set([
+    "BadDeviceToken",
+    "Unregistered",
+    "DeviceTokenNotForTopic",
+    "ExpiredToken",
+]);
+
+// Reasons APNS gives for a rejected provider token rather than a rejected device token
+const PROVIDER_TOKEN_REASONS = new Set([
+    "ExpiredProviderToken",
+    "InvalidProviderToken",
+    "MissingProviderToken",
+    "TooManyProviderTokenUpdates",
+]);
+
 // --- Helper functions remain the same ---
-const getApnsServer = (environment: "development" | "production"): string => {
+const getApnsServer = (environment: ApnsEnvironment, host?: string): string => {
+    if (host) {
+        return host.replace(/\/$/, "");
+    }
     return environment === "development"
         ? "https://api.sandbox.push.apple.com"
         : "https://api.push.apple.com";
 };
 
 /**
- * Decodes a Base64 encoded APNS private key to PEM format
- * @param base64Key The Base64 encoded private key
- * @returns The decoded private key in PEM format
+ * Builds a per-token result from an APNS response.
+ * Error bodies look like `{ "reason": "Unregistered", "timestamp": 1700000000000 }`;
+ * the timestamp (milliseconds) is only sent with 410.
  */
-const decodeApnsPrivateKey = (base64Key: string): string => {
+const parseApnsResponse = (
+    token: string,
+    status: number,
+    responseBody: string,
+): PushDeliveryResult => {
+    if (status === 200) {
+        return {
+            token,
+            success: true,
+            status,
+            reason: null,
+            unregisteredAt: null,
+            invalidToken: false,
+            retryable: false,
+        };
+    }
+
+    let reason: string | null = null;
+    let timestamp: number | null = null;
     try {
-        // Decode the Base64 string to get the PEM content
-        const decodedKey = atob(base64Key);
-        return decodedKey;
-    } catch (error: any) {
-        console.error("Failed to decode Base64 APNS private key:", error);
-        throw new Error(`APNS private key decode failed: ${error.message}`);
+        const body = JSON.parse(responseBody);
+        reason = typeof body?.reason === "string" ? body.reason : null;
+        timestamp = typeof body?.timestamp === "number" ? body.timestamp : null;
+    } catch {
+        // Not JSON (e.g. a proxy error page); the status is all we have
     }
+
+    return {
+        token,
+        success: false,
+        status,
+        reason,
+        unregisteredAt: status === 410 && timestamp !== null ? new Date(timestamp) : null,
+        invalidToken: status === 410 || (reason !== null && INVALID_TOKEN_REASONS.has(reason)),
+        // A rejected provider token is replaced or throttling ends before the next attempt
+        retryable:
+            status === 429 ||
+            status >= 500 ||
+            (reason !== null && PROVIDER_TOKEN_REASONS.has(reason)),
+    };
 };
 
-const generateApnsAuthToken = async (config: ApnsConfig): Promise<string> => {
-    try {
-        // Ensure newline characters are correctly interpreted
-        const ecPrivateKey = await jose.importPKCS8(
-            config.privateKey.replace(/\\n/g, "\n"),
-            "ES256",
-        );
-        const jwt = await new jose.SignJWT({})
-            .setProtectedHeader({
-                alg: "ES256",
-                kid: config.keyId,
-            })
-            .setIssuedAt()
-            .setIssuer(config.teamId)
-            // Consider a shorter expiration if generating frequently, but < 1hr is typical
-            // .setExpirationTime('1h')
-            .sign(ecPrivateKey);
-        return jwt;
-    } catch (error: any) {
-        console.error("Failed to generate APNS auth token:", error);
-        throw new Error(`APNS Auth Token generation failed: ${error.message}`);
+/**
+ * Reads a Retry-After header (delay in seconds or an HTTP date).
+ * @returns Seconds to wait, or undefined if absent or unparseable.
+ */
+export const parseRetryAfter = (header: string | null): number | undefined => {
+    if (!header) {
+        return undefined;
+    }
+    const seconds = Number(header);
+    if (Number.isFinite(seconds)) {
+        return Math.max(0, seconds);
     }
+    const date = Date.parse(header);
+    return Number.isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
 };
 
-// --- sendApnsNotification remains the same ---
-export const sendApnsNotification = async (
-    config: ApnsConfig,
-    deviceToken: string,
-    payload: ApnsPayload,
-    authToken: string,
-): Promise<Response> => {
-    const server = getApnsServer(config.environment);
-    const url = `${server}/3/device/${deviceToken}`;
-    const headers = {
-        authorization: `bearer ${authToken}`,
-        "apns-topic": config.topic,
-        "apns-push-type": payload.aps["content-available"] ? "background" : "alert", // Adjust push type
-        "apns-priority": "10", // Use 5 for lower priority if needed (e.g., background)
-        "Content-Type": "application/json",
-    };
+// A failure before the provider answered (missing configuration, network error)
+export const failedResult = (token: string, reason: string | null): PushDeliveryResult => ({
+    token,
+    success: false,
+    status: null,
+    reason,
+    unregisteredAt: null,
+    invalidToken: false,
+    retryable: true,
+});
 
-    const shortToken = `${deviceToken.substring(0, 5)}...${deviceToken.substring(deviceToken.length - 5)}`;
-    console.log(`Sending APNS to ${shortToken}`);
-    // console.log(`APNS Payload: ${JSON.stringify(payload)}`); // Uncomment for deep debugging
+// --- APNS Client ---
 
-    try {
-        const response = await fetch(url, {
-            method: "POST",
-            headers: headers,
-            body: JSON.stringify(payload),
-        });
-
-        if (!response.ok) {
-            const responseBody = await response.text();
-            const reason = responseBody ? JSON.parse(responseBody)?.reason : "Unknown";
-            console.error(
-                `APNS request failed for token ${shortToken}: ${response.status} ${response.statusText} - Reason: ${reason}`,
-                // responseBody, // Log full body if needed
-            );
-            // Propagate a more informative error
-            throw new Error(
-                `APNS Error ${response.status}: ${reason || response.statusText}`,
-            );
-        }
+// Apple rejects provider tokens older than an hour and answers
+// TooManyProviderTokenUpdates when they are replaced more often than every 20 minutes
+const PROVIDER_TOKEN_TTL_MS = 50 * 60 * 1000;
+const PROVIDER_TOKEN_CACHE_PREFIX = "apns-provider-token:";
+const KV_MIN_TTL_SECONDS = 60; // KV rejects shorter expirations
 
-        console.log(`APNS Success for token ${shortToken}: ${response.status}`);
-        return response;
-    } catch (error: any) {
-        console.error(`APNS fetch failed for token ${shortToken}:`, error);
-        // Re-throw the error so Promise.allSettled catches it correctly
-        throw error;
-    }
-};
+interface ProviderToken {
+    token: string;
+    issuedAt: number; // Epoch milliseconds
+}
 
-// --- Generic Notification Sending Function ---
 /**
- * Sends a specific APNS payload to a list of device tokens.
- * Handles token generation and concurrent sending.
- * @param env The Cloudflare Worker environment bindings.
- * @param deviceTokens List of device tokens (strings).
- * @param payload The notification payload to send.
- * @returns Promise resolving with success and failure counts.
+ * Sends notifications with one APNS signing key.
+ * The key is imported once and the provider token (JWT) is reused for 50
+ * minutes. Tokens are shared through `cache` when a KV namespace is given, so
+ * other isolates don't sign their own; otherwise they live in isolate memory.
  */
-export const sendPushNotifications = async (
-    env: AppEnv["Bindings"],
-    deviceTokens: string[],
-    payload: ApnsPayload,
-): Promise<{ successCount: number; failureCount: number }> => {
-    if (!deviceTokens || deviceTokens.length === 0) {
-        console.log("No device tokens provided for notification.");
-        return { successCount: 0, failureCount: 0 };
+export class ApnsClient {
+    private signingKey?: Promise<CryptoKey>;
+    private providerToken?: ProviderToken;
+    private pendingProviderToken?: Promise<ProviderToken>;
+
+    constructor(
+        private readonly config: ApnsConfig,
+        private readonly cache?: KVNamespace,
+    ) {}
+
+    private get cacheKey(): string {
+        return `${PROVIDER_TOKEN_CACHE_PREFIX}${this.config.teamId}:${this.config.keyId}`;
+    }
+
+    private importSigningKey(): Promise<CryptoKey> {
+        if (!this.signingKey) {
+            this.signingKey = (async () => {
+                const pem = atob(this.config.privateKeyBase64);
+                // Ensure newline characters are correctly interpreted
+                return jose.importPKCS8(pem.replace(/\\n/g, "\n"), "ES256");
+            })();
+            // Let a failed import be retried on the next send
+            this.signingKey.catch(() => (this.signingKey = undefined));
+        }
+        return this.signingKey;
+    }
+
+    private isFresh(providerToken: ProviderToken | null | undefined): providerToken is ProviderToken {
+        return !!providerToken && Date.now() - providerToken.issuedAt < PROVIDER_TOKEN_TTL_MS;
+    }
+
+    private async loadOrSignProviderToken(): Promise<ProviderToken> {
+        if (this.cache) {
+            try {
+                const cached = await this.cache.get<ProviderToken>(this.cacheKey, "json");
+                if (this.isFresh(cached)) {
+                    return cached;
+                }
+            } catch (error) {
+                console.error("Failed to read cached APNS provider token:", error);
+            }
+        }
+
+        const issuedAt = Date.now();
+        const token = await new jose.SignJWT({})
+            .setProtectedHeader({ alg: "ES256", kid: this.config.keyId })
+            .setIssuedAt(Math.floor(issuedAt / 1000))
+            .setIssuer(this.config.teamId)
+            .sign(await this.importSigningKey());
+        const providerToken = { token, issuedAt };
+        console.log(`Signed a new APNS provider token for key ${this.config.keyId}`);
+
+        if (this.cache) {
+            try {
+                await this.cache.put(this.cacheKey, JSON.stringify(providerToken), {
+                    expirationTtl: Math.max(PROVIDER_TOKEN_TTL_MS / 1000, KV_MIN_TTL_SECONDS),
+                });
+            } catch (error) {
+                // This isolate still reuses it; others sign their own
+                console.error("Failed to cache APNS provider token:", error);
+            }
+        }
+        return providerToken;
+    }
+
+    /**
+     * Returns the current provider token, signing a new one when the cached
+     * token is older than 50 minutes. Concurrent callers share one signing.
+     */
+    async getProviderToken(): Promise<string> {
+        if (this.isFresh(this.providerToken)) {
+            return this.providerToken.token;
+        }
+        if (!this.pendingProviderToken) {
+            this.pendingProviderToken = this.loadOrSignProviderToken()
+                .then((providerToken) => (this.providerToken = providerToken))
+                .finally(() => (this.pendingProviderToken = undefined));
+        }
+        return (await this.pendingProviderToken).token;
+    }
+
+    /**
+     * Drops a provider token APNS reported as expired, unless it was already replaced.
+     */
+    private async invalidateProviderToken(token: string): Promise<void> {
+        if (this.providerToken?.token !== token) {
+            return;
+        }
+        this.providerToken = undefined;
+        try {
+            const cached = await this.cache?.get<ProviderToken>(this.cacheKey, "json");
+            if (cached?.token === token) {
+                await this.cache!.delete(this.cacheKey);
+            }
+        } catch (error) {
+            console.error("Failed to drop cached APNS provider token:", error);
+        }
     }
 
-    // Decode the Base64 private key
-    const decodedPrivateKey = decodeApnsPrivateKey(env.APNS_PRIVATE_KEY_BASE64);
+    /**
+     * Sends one notification. Never throws: APNS rejections and network errors
+     * are returned as a failed result.
+     * @param deviceToken The device token, or a Live Activity push token.
+     * @param payload The notification payload, or a Live Activity update.
+     * @param environment APNS host the token belongs to.
+     */
+    async send(
+        deviceToken: string,
+        payload: ApnsPayload | LiveActivityPayload,
+        environment: ApnsEnvironment,
+    ): Promise<PushDeliveryResult> {
+        const shortToken = `${deviceToken.substring(0, 5)}...${deviceToken.substring(deviceToken.length - 5)}`;
 
+        let providerToken: string;
+        try {
+            providerToken = await this.getProviderToken();
+        } catch (error) {
+            console.error("Failed to generate APNS provider token:", error);
+            return failedResult(deviceToken, "ProviderTokenError");
+        }
+
+        const server = getApnsServer(environment, this.config.host);
+        const liveActivity = "event" in payload.aps;
+        const headers = {
+            authorization: `bearer ${providerToken}`,
+            // Live Activity updates go to a topic of their own
+            "apns-topic": liveActivity
+                ? `${this.config.topic}.push-type.liveactivity`
+                : this.config.topic,
+            "apns-push-type": liveActivity
+                ? "liveactivity"
+                : "content-available" in payload.aps && payload.aps["content-available"]
+                  ? "background"
+                  : "alert", // Adjust push type
+            "apns-priority": "10", // Use 5 for lower priority if needed (e.g., background)
+            "Content-Type": "application/json",
+        };
+
+        console.log(`Sending APNS to ${shortToken}`);
+        // console.log(`APNS Payload: ${JSON.stringify(payload)}`); // Uncomment for deep debugging
+
+        try {
+            const response = await fetch(`${server}/3/device/${deviceToken}`, {
+                method: "POST",
+                headers: headers,
+                body: JSON.stringify(payload),
+            });
+            const result: PushDeliveryResult = {
+                ...parseApnsResponse(
+                    deviceToken,
+                    response.status,
+                    response.ok ? "" : await response.text(),
+                ),
+                retryAfterSeconds: parseRetryAfter(response.headers.get("retry-after")),
+            };
+
+            if (result.success) {
+                console.log(`APNS Success for token ${shortToken}: ${response.status}`);
+            } else {
+                console.error(
+                    `APNS request failed for token ${shortToken}: ${response.status} ${response.statusText} - Reason: ${result.reason ?? "Unknown"}`,
+                );
+                if (result.reason === "ExpiredProviderToken") {
+                    await this.invalidateProviderToken(providerToken);
+                }
+            }
+            return result;
+        } catch (error: any) {
+            console.error(`APNS fetch failed for token ${shortToken}:`, error);
+            return failedResult(deviceToken, null);
+        }
+    }
+
+    /**
+     * Sends a payload to several device tokens of one environment concurrently.
+     * @returns Success and failure counts and per-token results.
+     */
+    async sendBatch(
+        deviceTokens: string[],
+        payload: ApnsPayload | LiveActivityPayload,
+        environment: ApnsEnvironment,
+    ): Promise<PushSendResult> {
+        const results = await Promise.all(
+            deviceTokens.map((token) => this.send(token, payload, environment)),
+        );
+        const successCount = results.filter((r) => r.success).length;
+        return { successCount, failureCount: results.length - successCount, results };
+    }
+}
+
+// Clients live as long as the isolate, so requests reuse imported keys and provider tokens
+const apnsClients = new Map<string, ApnsClient>();
+
+/**
+ * Returns the isolate's client for the configured APNS key.
+ * @returns The client, or null if APNS configuration is missing.
+ */
+export const getApnsClient = (env: AppEnv["Bindings"]): ApnsClient | null => {
     const config: ApnsConfig = {
         keyId: env.APNS_KEY_ID,
         teamId: env.APNS_TEAM_ID,
-        privateKey: decodedPrivateKey,
+        privateKeyBase64: env.APNS_PRIVATE_KEY_BASE64,
         topic: env.APPLE_BUNDLE_ID,
-        environment: env.APNS_ENVIRONMENT,
+        host: env.APNS_HOST,
     };
 
     // Validate essential config
-    if (
-        !config.keyId ||
-        !config.teamId ||
-        !config.privateKey ||
-        !config.topic
-    ) {
+    if (!config.keyId || !config.teamId || !config.privateKeyBase64 || !config.topic) {
         console.error(
             "APNS configuration missing in environment variables.",
             // Avoid logging the private key itself
             {
                 keyId: !!config.keyId,
                 teamId: !!config.teamId,
-                privateKey: !!config.privateKey,
+                privateKey: !!config.privateKeyBase64,
                 topic: !!config.topic,
-                environment: config.environment,
             },
         );
+        return null;
+    }
+
+    const key = [config.teamId, config.keyId, config.topic, config.host ?? ""].join("|");
+    let client = apnsClients.get(key);
+    if (!client) {
+        client = new ApnsClient(config, env.APNS_TOKEN_CACHE);
+        apnsClients.set(key, client);
+    }
+    return client;
+};
+
+// --- Generic Notification Sending Function ---
+/**
+ * Sends a specific APNS payload to a list of device tokens.
+ * Tokens APNS reports as invalid are removed from the database.
+ * @param env The Cloudflare Worker environment bindings.
+ * @param deviceTokens List of device tokens (strings).
+ * @param payload The notification payload to send.
+ * @param environment APNS host the tokens belong to; defaults to APNS_ENVIRONMENT.
+ * @returns Promise resolving with success and failure counts and per-token results.
+ */
+export const sendPushNotifications = async (
+    env: AppEnv["Bindings"],
+    deviceTokens: string[],
+    payload: ApnsPayload,
+    environment: ApnsEnvironment = env.APNS_ENVIRONMENT,
+): Promise<PushSendResult> => {
+    if (!deviceTokens || deviceTokens.length === 0) {
+        console.log("No device tokens provided for notification.");
+        return { successCount: 0, failureCount: 0, results: [] };
+    }
+
+    const client = getApnsClient(env);
+    if (!client) {
         // Return failure for all tokens as we cannot proceed
-        return { successCount: 0, failureCount: deviceTokens.length };
+        return {
+            successCount: 0,
+            failureCount: deviceTokens.length,
+            results: deviceTokens.map((token) => failedResult(token, "ConfigurationMissing")),
+        };
     }
 
-    try {
-        // Generate the auth token once for this batch
-        const authToken = await generateApnsAuthToken(config);
+    const attemptedAt = new Date();
+    const { successCount, failureCount, results } = await client.sendBatch(
+        deviceTokens,
+        payload,
+        environment,
+    );
+    console.log(
+        `APNS Batch Send Results: ${successCount} succeeded, ${failureCount} failed.`,
+    );
 
-        // Send notifications concurrently
-        const promises = deviceTokens.map((token) =>
-            sendApnsNotification(config, token, payload, authToken),
-        );
+    const invalidResults = results.filter((r) => r.invalidToken);
+    if (invalidResults.length > 0) {
+        try {
+            const pruned = await pruneInvalidDeviceTokens(
+                createDbClient(env.DB),
+                invalidResults,
+                attemptedAt,
+            );
+            console.log(
+                `Removed ${pruned} of ${invalidResults.length} device tokens rejected by APNS.`,
+            );
+        } catch (error) {
+            // The send itself succeeded; stale tokens are retried and pruned next time
+            console.error("Failed to prune invalid device tokens:", error);
+        }
+    }
 
-        // Wait for all promises to settle
-        const results = await Promise.allSettled(promises);
+    return { successCount, failureCount, results };
+};
 
-        let successCount = 0;
-        let failureCount = 0;
-        const failedTokens: string[] = [];
+// --- Per-Environment Sending ---
 
-        results.forEach((result, index) => {
-            const token = deviceTokens[index];
-            const shortToken = `${token.substring(0, 5)}...${token.substring(token.length - 5)}`;
-            if (result.status === "fulfilled") {
-                successCount++;
-            } else {
-                failureCount++;
-                failedTokens.push(token); // Collect failed tokens
-                console.error(
-                    `Failed to send APNS to token ${shortToken}:`,
-                    result.reason,
-                );
-                // TODO: Handle specific APNS errors like 'BadDeviceToken'
-                // Consider adding logic here to queue the token for removal from the DB
-                // if (result.reason instanceof Error && result.reason.message.includes('BadDeviceToken')) {
-                //   console.log(`Marking token ${shortToken} as invalid.`);
-                //   // Add to a list or emit an event to handle DB removal
-                // }
-            }
-        });
+// A device token and the APNS environment it was registered for
+export interface ApnsTarget {
+    token: string;
+    environment?: ApnsEnvironment | null; // Null uses APNS_ENVIRONMENT
+}
 
-        console.log(
-            `APNS Batch Send Results: ${successCount} succeeded, ${failureCount} failed.`,
-        );
-        if (failureCount > 0) {
-            console.log("Failed tokens (first 5):", failedTokens.slice(0, 5));
-        }
-        return { successCount, failureCount };
-    } catch (error: any) {
-        // Catch errors during token generation or other setup
-        console.error("Failed to send APNS notifications batch:", error);
-        return { successCount: 0, failureCount: deviceTokens.length };
+/**
+ * Sends a payload to tokens from different builds, one batch per APNS host,
+ * so sandbox and production tokens can be notified together.
+ * @returns Promise resolving with combined counts and per-token results.
+ */
+export const sendPushNotificationsByEnvironment = async (
+    env: AppEnv["Bindings"],
+    targets: ApnsTarget[],
+    payload: ApnsPayload,
+): Promise<PushSendResult> => {
+    const tokensByEnvironment = new Map<ApnsEnvironment, string[]>();
+    for (const target of targets) {
+        const environment = target.environment ?? env.APNS_ENVIRONMENT;
+        const tokens = tokensByEnvironment.get(environment) ?? [];
+        tokens.push(target.token);
+        tokensByEnvironment.set(environment, tokens);
     }
+
+    const results = await Promise.all(
+        [...tokensByEnvironment].map(([environment, tokens]) =>
+            sendPushNotifications(env, tokens, payload, environment),
+        ),
+    );
+    return results.reduce(
+        (total, result) => ({
+            successCount: total.successCount + result.successCount,
+            failureCount: total.failureCount + result.failureCount,
+            results: [...total.results, ...result.results],
+        }),
+        { successCount: 0, failureCount: 0, results: [] },
+    );
+};
+
+// --- Cross-Platform Sending ---
+
+// A device token of either platform
+export interface PushTarget extends ApnsTarget {
+    platform: "ios" | "android";
+}
+
+/**
+ * Sends a payload to devices of both platforms: iOS tokens through APNS
+ * (one batch per environment), Android tokens through FCM.
+ * @returns Promise resolving with combined counts and per-token results.
+ */
+export const sendPushNotificationsToTargets = async (
+    env: AppEnv["Bindings"],
+    targets: PushTarget[],
+    payload: ApnsPayload,
+): Promise<PushSendResult> => {
+    const iosTargets = targets.filter((t) => t.platform === "ios");
+    const androidTokens = targets
+        .filter((t) => t.platform === "android")
+        .map((t) => t.token);
+
+    const [ios, android] = await Promise.all([
+        iosTargets.length > 0
+            ? sendPushNotificationsByEnvironment(env, iosTargets, payload)
+            : { successCount: 0, failureCount: 0, results: [] },
+        sendFcmNotifications(env, androidTokens, payload),
+    ]);
+    return {
+        successCount: ios.successCount + android.successCount,
+        failureCount: ios.failureCount + android.failureCount,
+        results: [...ios.results, ...android.results],
+    };
 };
 
-// --- notifyFriendsOfSession remains the same ---
+// --- Recipients ---
+
+// A device to notify, with its owner's quiet-hours settings (see resolvePushRecipients)
+export interface PushRecipient extends PushTarget {
+    userId: number;
+    quietHours: QuietHoursSettings;
+    locale: Locale; // Language the notification is rendered in
+}
+
+// --- Notification Payloads ---
 /**
- * Sends notifications to multiple devices about a new smoking session.
- * @param env The Cloudflare Worker environment bindings.
- * @param deviceTokens List of device tokens (strings).
+ * Builds the notification sent to friends when a smoking session starts.
  * @param initiator User who started the session.
  * @param sessionId The ID of the new smoking session.
+ * @param locale Language of the recipient.
  */
-export const notifyFriendsOfSession = async (
-    env: AppEnv["Bindings"],
-    deviceTokens: string[],
-    initiator: { id: number; username: string; fullName?: string | null },
+export const buildNewSessionPayload = (
+    initiator: {
+        id: number;
+        username: string;
+        fullName?: string | null;
+        avatarUrl?: string | null;
+    },
     sessionId: number,
-): Promise<{ successCount: number; failureCount: number }> => {
-    // Construct the specific payload for a new session
+    locale: Locale,
+): ApnsPayload => {
     const initiatorName = initiator.fullName || initiator.username;
-    const payload: ApnsPayload = {
+    return {
         aps: {
             alert: {
-                title: "Nongki Session Started",
-                body: `${initiatorName} has started a nongki session!`,
+                title: t(locale, "Nongki Session Started"),
+                body: t(locale, "{name} has started a nongki session!", {
+                    name: initiatorName,
+                }),
             },
             sound: "default",
-            // badge: 1, // Badge handling is complex, often better client-side
+            "mutable-content": 1, // Lets the service extension attach the avatar
         },
         // Custom data
         notificationType: "new_session", // Identify the notification type
         sessionId: sessionId,
         initiatorId: initiator.id,
         initiatorUsername: initiator.username,
+        initiatorAvatarUrl: initiator.avatarUrl ?? null,
     };
-
-    // Use the generic sender
-    return sendPushNotifications(env, deviceTokens, payload);
 };
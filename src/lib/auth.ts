@@ -4,16 +4,20 @@ import * as jose from "jose";
 import type { AppContext, AppEnv } from "../types";
 import type { JWTPayload } from "jose";
 import type { MiddlewareHandler } from "hono";
+import { HTTPException } from "hono/http-exception";
+import { and, eq, inArray, isNull, type SQL } from "drizzle-orm";
+import type { DB } from "../db";
+import {
+    authSessions,
+    deviceTokens,
+    personalAccessTokens,
+    users,
+} from "../db/schema";
+import { createAppleProvider } from "./identity";
+import { cancelAccountDeletion } from "./account";
 
 // --- Apple Sign-In Verification ---
 
-// URL for Apple's public keys
-const APPLE_PUBLIC_KEY_URL = "https://appleid.apple.com/auth/keys";
-
-// Create a remote JSON Web Key Set (JWKS) instance
-// This will fetch and cache Apple's public keys
-const appleJWKS = jose.createRemoteJWKSet(new URL(APPLE_PUBLIC_KEY_URL));
-
 /**
  * Verifies an Apple ID token.
  * @param idToken The ID token received from the client.
@@ -26,9 +30,10 @@ export const verifyAppleToken = async (
     requiredAudience: string,
 ): Promise<JWTPayload> => {
     try {
-        const { payload } = await jose.jwtVerify(idToken, appleJWKS, {
-            issuer: "https://appleid.apple.com", // Apple's issuer identifier
-            audience: requiredAudience, // Your app's bundle ID
+        const apple = createAppleProvider(requiredAudience);
+        const { payload } = await jose.jwtVerify(idToken, apple.keys, {
+            issuer: apple.issuer, // Apple's issuer identifier
+            audience: apple.audience, // Your app's bundle ID
         });
 
         // Verification successful, return the payload
@@ -41,33 +46,715 @@ export const verifyAppleToken = async (
     }
 };
 
+// Event types Apple sends to the server-to-server notification endpoint
+export type AppleServerEventType =
+    | "consent-revoked"
+    | "account-delete"
+    | "email-disabled"
+    | "email-enabled";
+
+export interface AppleServerEvent {
+    type: AppleServerEventType;
+    sub: string; // Apple User ID, matches users.appleId
+    email?: string; // Private relay address (email events only)
+    isPrivateEmail?: boolean;
+    eventTime?: number; // Milliseconds since epoch
+}
+
+/**
+ * Verifies a Sign in with Apple server-to-server notification.
+ * The notification is a JWT signed with the same keys as ID tokens.
+ * @param signedPayload The `payload` field of the request body Apple posts.
+ * @param requiredAudience The expected audience (your app's bundle ID).
+ * @returns The decoded event.
+ * @throws {Error} If verification fails or the `events` claim is malformed.
+ */
+export const verifyAppleServerNotification = async (
+    signedPayload: string,
+    requiredAudience: string,
+): Promise<AppleServerEvent> => {
+    const payload = await verifyAppleToken(signedPayload, requiredAudience);
+
+    // Apple sends `events` as a JSON-encoded string
+    let event: Record<string, any>;
+    try {
+        event =
+            typeof payload.events === "string"
+                ? JSON.parse(payload.events)
+                : (payload.events as Record<string, any>);
+    } catch {
+        throw new Error("Apple token verification failed: malformed events claim");
+    }
+
+    if (!event?.type || !event?.sub) {
+        throw new Error("Apple token verification failed: incomplete events claim");
+    }
+
+    return {
+        type: event.type,
+        sub: event.sub,
+        email: event.email,
+        // Apple encodes booleans as strings in this claim
+        isPrivateEmail:
+            event.is_private_email === true || event.is_private_email === "true",
+        eventTime: event.event_time,
+    };
+};
+
+// --- Password Hashing ---
+
+// PBKDF2 parameters. Workers caps PBKDF2 at 100k iterations.
+const PASSWORD_HASH_ALGORITHM = "pbkdf2-sha256";
+const PASSWORD_HASH_VERSION = "v1";
+const PASSWORD_HASH_ITERATIONS = 100_000;
+const PASSWORD_SALT_BYTES = 16;
+const PASSWORD_KEY_BYTES = 32;
+
+const bytesToBase64 = (bytes: Uint8Array): string =>
+    btoa(String.fromCharCode(...bytes));
+
+const base64ToBytes = (value: string): Uint8Array =>
+    Uint8Array.from(atob(value), (char) => char.charCodeAt(0));
+
+/**
+ * Compares two byte arrays without short-circuiting on the first mismatch.
+ */
+const timingSafeEqual = (a: Uint8Array, b: Uint8Array): boolean => {
+    if (a.length !== b.length) {
+        return false;
+    }
+    let diff = 0;
+    for (let i = 0; i < a.length; i++) {
+        diff |= a[i] ^ b[i];
+    }
+    return diff === 0;
+};
+
+const derivePasswordKey = async (
+    password: string,
+    salt: Uint8Array,
+    iterations: number,
+): Promise<Uint8Array> => {
+    const keyMaterial = await crypto.subtle.importKey(
+        "raw",
+        new TextEncoder().encode(password),
+        "PBKDF2",
+        false,
+        ["deriveBits"],
+    );
+    const bits = await crypto.subtle.deriveBits(
+        { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+        keyMaterial,
+        PASSWORD_KEY_BYTES * 8,
+    );
+    return new Uint8Array(bits);
+};
+
+/**
+ * Hashes a password with PBKDF2-SHA256 and a random per-user salt.
+ * @param password The plaintext password.
+ * @returns A self-describing hash string:
+ *          `pbkdf2-sha256$v1$<iterations>$<base64 salt>$<base64 hash>`.
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+    const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_BYTES));
+    const hash = await derivePasswordKey(
+        password,
+        salt,
+        PASSWORD_HASH_ITERATIONS,
+    );
+    return [
+        PASSWORD_HASH_ALGORITHM,
+        PASSWORD_HASH_VERSION,
+        PASSWORD_HASH_ITERATIONS,
+        bytesToBase64(salt),
+        bytesToBase64(hash),
+    ].join("$");
+};
+
+/**
+ * Verifies a password against a hash produced by `hashPassword`.
+ * @param password The plaintext password to check.
+ * @param storedHash The value stored in `users.password_hash`.
+ * @returns True if the password matches, false otherwise (including unknown formats).
+ */
+export const verifyPassword = async (
+    password: string,
+    storedHash: string,
+): Promise<boolean> => {
+    const [algorithm, version, iterationsStr, saltB64, hashB64] =
+        storedHash.split("$");
+    if (
+        algorithm !== PASSWORD_HASH_ALGORITHM ||
+        version !== PASSWORD_HASH_VERSION ||
+        !saltB64 ||
+        !hashB64
+    ) {
+        console.error(`Unsupported password hash format: ${algorithm}$${version}`);
+        return false;
+    }
+
+    const iterations = parseInt(iterationsStr, 10);
+    if (isNaN(iterations) || iterations <= 0) {
+        return false;
+    }
+
+    try {
+        const expected = base64ToBytes(hashB64);
+        const actual = await derivePasswordKey(
+            password,
+            base64ToBytes(saltB64),
+            iterations,
+        );
+        return timingSafeEqual(actual, expected);
+    } catch (error: any) {
+        console.error("Password verification failed:", error.message);
+        return false;
+    }
+};
+
+// Checked when there is no stored hash, so that logins for unknown users
+// take as long as wrong passwords. Its all-zero key never matches.
+const DUMMY_PASSWORD_HASH = [
+    PASSWORD_HASH_ALGORITHM,
+    PASSWORD_HASH_VERSION,
+    PASSWORD_HASH_ITERATIONS,
+    bytesToBase64(new Uint8Array(PASSWORD_SALT_BYTES)),
+    bytesToBase64(new Uint8Array(PASSWORD_KEY_BYTES)),
+].join("$");
+
+/**
+ * Verifies a login attempt against a user's password hash in constant work:
+ * a missing user or hash still costs a full key derivation.
+ * @param storedHash The user's hash; null/undefined for unknown or password-less users.
+ * @returns True only if the user has a password and it matches.
+ */
+export const verifyLoginPassword = async (
+    password: string,
+    storedHash: string | null | undefined,
+): Promise<boolean> => {
+    const valid = await verifyPassword(password, storedHash ?? DUMMY_PASSWORD_HASH);
+    return !!storedHash && valid;
+};
+
 // --- Application JWT Handling ---
 
+// Access tokens are short-lived; refresh tokens keep the user signed in
+export const ACCESS_TOKEN_TTL_SECONDS = 60 * 15; // 15 minutes
+export const REFRESH_TOKEN_TTL_SECONDS = 60 * 60 * 24 * 60; // 60 days
+const SESSION_LAST_SEEN_RESOLUTION_MS = 5 * 60 * 1000; // 5 minutes
+
 /**
  * Generates an authentication token for our application.
- * @param payload The data to include in the token (e.g., user ID).
+ * @param payload The data to include in the token (e.g., user ID and session ID).
  * @param secret The JWT secret from environment variables.
+ * @param expiresInSeconds Token lifetime, defaults to the access token TTL.
  * @returns The generated JWT string.
  */
 export const generateAuthToken = async (
     payload: Record<string, any>,
     secret: string,
+    expiresInSeconds: number = ACCESS_TOKEN_TTL_SECONDS,
 ): Promise<string> => {
-    // Add expiration (e.g., 30 days)
     const enrichedPayload = {
         ...payload,
-        exp: Math.floor(Date.now() / 1000) + 60 * 60 * 24 * 30, // 30 days
+        exp: Math.floor(Date.now() / 1000) + expiresInSeconds,
     };
     return sign(enrichedPayload, secret);
 };
 
+// --- Auth Sessions & Refresh Tokens ---
+
+export interface AuthTokens {
+    token: string; // Short-lived access token
+    refreshToken: string; // Opaque `<sessionId>.<secret>` token, rotated on use
+    expiresIn: number; // Access token lifetime in seconds
+    sessionId: string;
+}
+
+const hashRefreshSecret = async (secret: string): Promise<string> => {
+    const digest = await crypto.subtle.digest(
+        "SHA-256",
+        new TextEncoder().encode(secret),
+    );
+    return jose.base64url.encode(new Uint8Array(digest));
+};
+
+const generateRefreshSecret = (): string =>
+    jose.base64url.encode(crypto.getRandomValues(new Uint8Array(32)));
+
+const refreshExpiry = (): Date =>
+    new Date(Date.now() + REFRESH_TOKEN_TTL_SECONDS * 1000);
+
+/**
+ * Starts a new auth session (refresh token family) and issues the first token pair.
+ * Also cancels a pending account deletion, since every sign-in goes through here.
+ * @param db The Drizzle client.
+ * @param userId The user signing in.
+ * @param secret The JWT secret from environment variables.
+ * @param metadata Optional client details stored with the session.
+ * @throws {Error} "Account suspended" if a moderator suspended the user.
+ */
+export const createAuthSession = async (
+    db: DB,
+    userId: number,
+    secret: string,
+    metadata: { userAgent?: string | null } = {},
+): Promise<AuthTokens> => {
+    const sessionId = crypto.randomUUID();
+    const refreshSecret = generateRefreshSecret();
+
+    const user = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: { suspendedAt: true },
+    });
+    if (user?.suspendedAt) {
+        throw new Error("Account suspended");
+    }
+
+    // Signing in again within the grace period keeps the account
+    if (await cancelAccountDeletion(db, userId)) {
+        console.log(`User ${userId} signed in, cancelled pending account deletion`);
+    }
+
+    await db.insert(authSessions).values({
+        id: sessionId,
+        userId,
+        refreshTokenHash: await hashRefreshSecret(refreshSecret),
+        userAgent: metadata.userAgent ?? null,
+        expiresAt: refreshExpiry(),
+    });
+
+    return {
+        token: await generateAuthToken({ id: userId, sid: sessionId }, secret),
+        refreshToken: `${sessionId}.${refreshSecret}`,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        sessionId,
+    };
+};
+
+/**
+ * Exchanges a refresh token for a new token pair, rotating the refresh token.
+ * Presenting an already-rotated token revokes the whole session (reuse detection).
+ * @throws {Error} Prefixed with "Refresh token rejected" when the token cannot be used.
+ */
+export const rotateRefreshToken = async (
+    db: DB,
+    refreshToken: string,
+    secret: string,
+): Promise<AuthTokens & { userId: number }> => {
+    const [sessionId, presentedSecret] = refreshToken.split(".");
+    if (!sessionId || !presentedSecret) {
+        throw new Error("Refresh token rejected: malformed");
+    }
+
+    const session = await db.query.authSessions.findFirst({
+        where: eq(authSessions.id, sessionId),
+    });
+    if (!session) {
+        throw new Error("Refresh token rejected: unknown session");
+    }
+    if (session.revokedAt) {
+        throw new Error("Refresh token rejected: session revoked");
+    }
+    if (session.expiresAt.getTime() <= Date.now()) {
+        throw new Error("Refresh token rejected: session expired");
+    }
+
+    const presentedHash = await hashRefreshSecret(presentedSecret);
+    if (presentedHash !== session.refreshTokenHash) {
+        // An old token from this family was replayed: assume it was stolen
+        console.warn(
+            `Refresh token reuse detected for session ${sessionId} (user ${session.userId}). Revoking session.`,
+        );
+        await revokeAuthSession(db, sessionId, "reuse_detected");
+        throw new Error("Refresh token rejected: reuse detected");
+    }
+
+    const nextSecret = generateRefreshSecret();
+    // Only rotate if nobody else rotated concurrently
+    const rotated = await db
+        .update(authSessions)
+        .set({
+            refreshTokenHash: await hashRefreshSecret(nextSecret),
+            lastUsedAt: new Date(),
+            expiresAt: refreshExpiry(),
+        })
+        .where(
+            and(
+                eq(authSessions.id, sessionId),
+                eq(authSessions.refreshTokenHash, presentedHash),
+                isNull(authSessions.revokedAt),
+            ),
+        )
+        .returning({ id: authSessions.id });
+
+    if (rotated.length === 0) {
+        await revokeAuthSession(db, sessionId, "reuse_detected");
+        throw new Error("Refresh token rejected: reuse detected");
+    }
+
+    return {
+        token: await generateAuthToken(
+            { id: session.userId, sid: sessionId },
+            secret,
+        ),
+        refreshToken: `${sessionId}.${nextSecret}`,
+        expiresIn: ACCESS_TOKEN_TTL_SECONDS,
+        sessionId,
+        userId: session.userId,
+    };
+};
+
+/**
+ * Marks matching active sessions as revoked and drops the push tokens they
+ * registered, so a signed-out device stops receiving notifications.
+ * @returns The IDs of the sessions that were revoked.
+ */
+const revokeSessionsWhere = async (
+    db: DB,
+    where: SQL | undefined,
+    reason: string,
+): Promise<string[]> => {
+    const revoked = await db
+        .update(authSessions)
+        .set({ revokedAt: new Date(), revokedReason: reason })
+        .where(and(where, isNull(authSessions.revokedAt)))
+        .returning({ id: authSessions.id });
+
+    const revokedIds = revoked.map((r) => r.id);
+    if (revokedIds.length > 0) {
+        await db
+            .delete(deviceTokens)
+            .where(inArray(deviceTokens.authSessionId, revokedIds));
+    }
+    return revokedIds;
+};
+
+/**
+ * Revokes a single auth session. Access tokens carrying its `sid` stop working
+ * immediately and the device's push token is removed.
+ * @returns True if an active session was revoked.
+ */
+export const revokeAuthSession = async (
+    db: DB,
+    sessionId: string,
+    reason: string,
+): Promise<boolean> => {
+    const revokedIds = await revokeSessionsWhere(
+        db,
+        eq(authSessions.id, sessionId),
+        reason,
+    );
+    return revokedIds.length > 0;
+};
+
+/**
+ * Revokes the session owning a refresh token, if the token is the current one.
+ * @returns True if an active session was revoked.
+ */
+export const revokeAuthSessionByRefreshToken = async (
+    db: DB,
+    refreshToken: string,
+    reason: string,
+): Promise<boolean> => {
+    const [sessionId, presentedSecret] = refreshToken.split(".");
+    if (!sessionId || !presentedSecret) {
+        return false;
+    }
+    const revokedIds = await revokeSessionsWhere(
+        db,
+        and(
+            eq(authSessions.id, sessionId),
+            eq(authSessions.refreshTokenHash, await hashRefreshSecret(presentedSecret)),
+        ),
+        reason,
+    );
+    return revokedIds.length > 0;
+};
+
+/**
+ * Revokes every active auth session belonging to a user.
+ * @returns The number of sessions revoked.
+ */
+export const revokeAllAuthSessions = async (
+    db: DB,
+    userId: number,
+    reason: string,
+): Promise<number> => {
+    const revokedIds = await revokeSessionsWhere(
+        db,
+        eq(authSessions.userId, userId),
+        reason,
+    );
+    return revokedIds.length;
+};
+
+// --- Personal Access Tokens ---
+
+// Scopes a personal access token can be granted. App JWTs implicitly hold all of them.
+export const TOKEN_SCOPES = [
+    "sessions:read", // Active sessions of friends, own history and responses
+    "sessions:write", // Start/end sessions and respond to friends
+    "friends:read", // Friend list and pending requests
+] as const;
+
+export type TokenScope = (typeof TOKEN_SCOPES)[number];
+
+// Distinguishes personal access tokens from JWTs in the Authorization header
+const PERSONAL_ACCESS_TOKEN_PREFIX = "tspat_";
+const PERSONAL_ACCESS_TOKEN_LAST_USED_RESOLUTION_MS = 5 * 60 * 1000; // 5 minutes
+
+/**
+ * Creates a personal access token. The plain token is only returned here;
+ * the database keeps its hash.
+ * @param db The Drizzle client.
+ * @param userId The owner of the token.
+ * @param options.name Label shown in the token list.
+ * @param options.scopes Scopes granted to the token.
+ * @param options.expiresInDays Lifetime in days, or undefined for no expiry.
+ * @returns The token ID and the `tspat_<id>.<secret>` token string.
+ */
+export const createPersonalAccessToken = async (
+    db: DB,
+    userId: number,
+    options: { name: string; scopes: TokenScope[]; expiresInDays?: number },
+): Promise<{ id: string; token: string; expiresAt: Date | null }> => {
+    const id = crypto.randomUUID();
+    const secret = generateRefreshSecret();
+    const expiresAt = options.expiresInDays
+        ? new Date(Date.now() + options.expiresInDays * 24 * 60 * 60 * 1000)
+        : null;
+
+    await db.insert(personalAccessTokens).values({
+        id,
+        userId,
+        name: options.name,
+        tokenHash: await hashRefreshSecret(secret),
+        scopes: [...new Set(options.scopes)],
+        expiresAt,
+    });
+
+    return { id, token: `${PERSONAL_ACCESS_TOKEN_PREFIX}${id}.${secret}`, expiresAt };
+};
+
+/**
+ * Revokes every active personal access token belonging to a user.
+ * @returns The number of tokens revoked.
+ */
+export const revokeAllPersonalAccessTokens = async (
+    db: DB,
+    userId: number,
+): Promise<number> => {
+    const revoked = await db
+        .update(personalAccessTokens)
+        .set({ revokedAt: new Date() })
+        .where(
+            and(
+                eq(personalAccessTokens.userId, userId),
+                isNull(personalAccessTokens.revokedAt),
+            ),
+        )
+        .returning({ id: personalAccessTokens.id });
+    return revoked.length;
+};
+
+/**
+ * Looks up an active personal access token.
+ * @returns The token row with its owner's suspension state, or null if the
+ *   token is unknown, revoked, expired or its secret does not match.
+ */
+const findActivePersonalAccessToken = async (db: DB, token: string) => {
+    const [id, presentedSecret] = token
+        .slice(PERSONAL_ACCESS_TOKEN_PREFIX.length)
+        .split(".");
+    if (!id || !presentedSecret) {
+        return null;
+    }
+
+    const row = await db.query.personalAccessTokens.findFirst({
+        where: and(
+            eq(personalAccessTokens.id, id),
+            isNull(personalAccessTokens.revokedAt),
+        ),
+        with: { user: { columns: { suspendedAt: true } } },
+    });
+    if (!row || (row.expiresAt && row.expiresAt.getTime() <= Date.now())) {
+        return null;
+    }
+
+    const presentedHash = jose.base64url.decode(await hashRefreshSecret(presentedSecret));
+    if (!timingSafeEqual(presentedHash, jose.base64url.decode(row.tokenHash))) {
+        return null;
+    }
+    return row;
+};
+
+// --- Middleware ---
+
+/**
+ * Builds the authentication middleware.
+ * App JWTs are always accepted. Personal access tokens are only accepted when
+ * a scope is required and the token was granted it.
+ */
+const createAuthMiddleware = (
+    requiredScope?: TokenScope,
+): MiddlewareHandler<AppEnv> => {
+    return async (c, next) => {
+        const db = c.get("db");
+        const bearer = c.req.header("Authorization")?.replace(/^Bearer\s+/i, "");
+
+        if (bearer?.startsWith(PERSONAL_ACCESS_TOKEN_PREFIX)) {
+            if (!requiredScope) {
+                return c.json(
+                    {
+                        success: false,
+                        error: "Personal access tokens cannot be used for this endpoint",
+                    },
+                    403,
+                );
+            }
+
+            const accessToken = await findActivePersonalAccessToken(db, bearer);
+            if (!accessToken) {
+                return c.json(
+                    { success: false, error: "Invalid or revoked access token" },
+                    401,
+                );
+            }
+            if (!accessToken.scopes.includes(requiredScope)) {
+                return c.json(
+                    {
+                        success: false,
+                        error: `Access token is missing the '${requiredScope}' scope`,
+                    },
+                    403,
+                );
+            }
+            if (accessToken.user.suspendedAt) {
+                return c.json({ success: false, error: "Account suspended" }, 403);
+            }
+
+            if (
+                !accessToken.lastUsedAt ||
+                Date.now() - accessToken.lastUsedAt.getTime() >
+                    PERSONAL_ACCESS_TOKEN_LAST_USED_RESOLUTION_MS
+            ) {
+                await db
+                    .update(personalAccessTokens)
+                    .set({ lastUsedAt: new Date() })
+                    .where(eq(personalAccessTokens.id, accessToken.id));
+            }
+
+            c.set("jwtPayload", {
+                id: accessToken.userId,
+                exp: accessToken.expiresAt
+                    ? Math.floor(accessToken.expiresAt.getTime() / 1000)
+                    : 0,
+                pat: accessToken.id,
+                scopes: accessToken.scopes as TokenScope[],
+            });
+            return next();
+        }
+
+        const verify = jwt({
+            secret: c.env.JWT_SECRET,
+        });
+        // Verify signature/expiry first; this populates c.var.jwtPayload
+        // A missing, invalid or expired access token; clients refresh on 401
+        const rejectAccessToken = (challenge: string | null) => {
+            if (challenge) {
+                c.header("WWW-Authenticate", challenge);
+            }
+            return c.json(
+                { success: false, error: "Invalid or expired access token" },
+                401,
+            );
+        };
+        try {
+            await verify(c, async () => {});
+        } catch (error) {
+            if (!(error instanceof HTTPException)) {
+                throw error;
+            }
+            return rejectAccessToken(error.getResponse().headers.get("WWW-Authenticate"));
+        }
+
+        const payload = c.get("jwtPayload");
+
+        // Legacy tokens issued before sessions existed carry no `sid` and cannot be
+        // revoked by signing out; make their clients refresh or sign in again
+        if (!payload.sid) {
+            return rejectAccessToken(
+                `Bearer realm="${c.req.url}",error="invalid_token",error_description="token has no session"`,
+            );
+        }
+
+        const session = await db.query.authSessions.findFirst({
+            where: eq(authSessions.id, payload.sid),
+            columns: { userId: true, revokedAt: true, lastUsedAt: true },
+            with: {
+                user: { columns: { suspendedAt: true, deletionScheduledAt: true } },
+            },
+        });
+        if (!session || session.revokedAt || session.userId !== payload.id) {
+            return c.json(
+                { success: false, error: "Session has been revoked" },
+                401,
+            );
+        }
+        // Deleting the account revokes its sessions; this also covers any that
+        // survived, until signing in again cancels the deletion
+        if (session.user.deletionScheduledAt) {
+            return c.json(
+                { success: false, error: "Account is scheduled for deletion" },
+                401,
+            );
+        }
+
+        // Track last-seen time, throttled to avoid a write on every request
+        if (Date.now() - session.lastUsedAt.getTime() > SESSION_LAST_SEEN_RESOLUTION_MS) {
+            await db
+                .update(authSessions)
+                .set({ lastUsedAt: new Date() })
+                .where(eq(authSessions.id, payload.sid));
+        }
+
+        if (session.user.suspendedAt) {
+            return c.json({ success: false, error: "Account suspended" }, 403);
+        }
+
+        await next();
+    };
+};
+
 /**
  * Hono middleware to verify the application's JWT.
- * Attaches the decoded payload to c.var.jwtPayload.
+ * Attaches the decoded payload to c.var.jwtPayload and rejects tokens
+ * whose auth session has been revoked or whose user is suspended.
+ * Personal access tokens are rejected; use requireScope() to accept them.
+ */
+export const jwtMiddleware: MiddlewareHandler<AppEnv> = createAuthMiddleware();
+
+/**
+ * Like jwtMiddleware, but also accepts a personal access token granted `scope`.
+ * @param scope The scope a personal access token needs for this route.
  */
-export const jwtMiddleware: MiddlewareHandler<AppEnv> = async (c, next) => {
-    const middleware = jwt({
-        secret: c.env.JWT_SECRET,
+export const requireScope = (scope: TokenScope): MiddlewareHandler<AppEnv> =>
+    createAuthMiddleware(scope);
+
+/**
+ * Hono middleware restricting a route to admins.
+ * Must run after jwtMiddleware; the role is read from the database so
+ * demoting an admin takes effect immediately.
+ */
+export const adminOnly: MiddlewareHandler<AppEnv> = async (c, next) => {
+    const user = await c.get("db").query.users.findFirst({
+        where: eq(users.id, c.get("jwtPayload").id),
+        columns: { role: true },
     });
-    return middleware(c, next);
+    if (user?.role !== "admin") {
+        return c.json({ success: false, error: "Admin access required" }, 403);
+    }
+    await next();
 };
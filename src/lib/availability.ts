@@ -0,0 +1,50 @@
+// src/lib/availability.ts
+
+// --- Availability Status ---
+
+export const AVAILABILITY_STATUSES = [
+    "available", // Available for sebat, receives every notification
+    "busy", // No session notifications
+    "in_class", // No session notifications
+    "do_not_disturb", // No push notifications at all
+] as const;
+
+export type AvailabilityStatus = (typeof AVAILABILITY_STATUSES)[number];
+
+interface AvailabilityColumns {
+    availability: AvailabilityStatus;
+    availabilityExpiresAt: Date | null;
+}
+
+/**
+ * Resolves the status currently in effect; an expired status falls back to 'available'.
+ */
+export const getEffectiveAvailability = (user: AvailabilityColumns): AvailabilityStatus =>
+    user.availabilityExpiresAt && user.availabilityExpiresAt.getTime() <= Date.now()
+        ? "available"
+        : user.availability;
+
+/**
+ * Formats a user's status for API responses.
+ */
+export const formatAvailability = (
+    user: AvailabilityColumns,
+): { status: AvailabilityStatus; expiresAt: Date | null } => {
+    const status = getEffectiveAvailability(user);
+    return {
+        status,
+        expiresAt: status === "available" ? null : user.availabilityExpiresAt,
+    };
+};
+
+/**
+ * Whether the user should be notified about friends' sessions starting and ending.
+ */
+export const receivesSessionNotifications = (user: AvailabilityColumns): boolean =>
+    getEffectiveAvailability(user) === "available";
+
+/**
+ * Whether the user accepts any push notification (e.g. friend requests).
+ */
+export const receivesPushNotifications = (user: AvailabilityColumns): boolean =>
+    getEffectiveAvailability(user) !== "do_not_disturb";
@@ -0,0 +1,139 @@
+// src/lib/avatar.ts
+import { eq } from "drizzle-orm";
+import type { DB } from "../db";
+import { users } from "../db/schema";
+import type { AppContext } from "../types";
+
+// --- Profile Avatars ---
+
+export const AVATAR_MAX_BYTES = 2 * 1024 * 1024; // 2 MB
+
+// Accepted content types and the file extension used in the object key
+const AVATAR_CONTENT_TYPES: Record<string, string> = {
+    "image/jpeg": "jpg",
+    "image/png": "png",
+    "image/webp": "webp",
+};
+
+// Leading bytes of each accepted format, so a mislabelled upload is rejected
+const matchesSignature = (bytes: Uint8Array, contentType: string): boolean => {
+    const startsWith = (signature: number[], offset = 0) =>
+        signature.every((byte, i) => bytes[offset + i] === byte);
+
+    switch (contentType) {
+        case "image/jpeg":
+            return startsWith([0xff, 0xd8, 0xff]);
+        case "image/png":
+            return startsWith([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+        case "image/webp":
+            // "RIFF" <size> "WEBP"
+            return startsWith([0x52, 0x49, 0x46, 0x46]) && startsWith([0x57, 0x45, 0x42, 0x50], 8);
+        default:
+            return false;
+    }
+};
+
+/**
+ * Checks an upload's declared content type, size and file signature.
+ * @returns An error message, or null if the image is acceptable.
+ */
+export const validateAvatarUpload = (
+    body: ArrayBuffer,
+    contentType: string | undefined,
+): string | null => {
+    const mimeType = contentType?.split(";")[0].trim().toLowerCase() ?? "";
+    if (!AVATAR_CONTENT_TYPES[mimeType]) {
+        return `Unsupported image type, use one of: ${Object.keys(AVATAR_CONTENT_TYPES).join(", ")}`;
+    }
+    if (body.byteLength === 0) {
+        return "Image is empty";
+    }
+    if (body.byteLength > AVATAR_MAX_BYTES) {
+        return `Image is larger than ${AVATAR_MAX_BYTES / (1024 * 1024)} MB`;
+    }
+    if (!matchesSignature(new Uint8Array(body), mimeType)) {
+        return "Image content does not match its content type";
+    }
+    return null;
+};
+
+const sha256Hex = async (body: ArrayBuffer): Promise<string> => {
+    const digest = await crypto.subtle.digest("SHA-256", body);
+    return [...new Uint8Array(digest)]
+        .map((b) => b.toString(16).padStart(2, "0"))
+        .join("");
+};
+
+/**
+ * Stores a validated avatar in R2 and points the user's profile at it.
+ * The object key contains the content hash, so URLs change whenever the image
+ * does and can be cached forever. The previous image is deleted.
+ * @returns The new object key.
+ */
+export const storeAvatar = async (
+    db: DB,
+    bucket: R2Bucket,
+    userId: number,
+    body: ArrayBuffer,
+    contentType: string,
+): Promise<string> => {
+    const mimeType = contentType.split(";")[0].trim().toLowerCase();
+    const avatarKey = `avatars/${userId}/${await sha256Hex(body)}.${AVATAR_CONTENT_TYPES[mimeType]}`;
+
+    const user = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: { avatarKey: true },
+    });
+
+    await bucket.put(avatarKey, body, {
+        httpMetadata: {
+            contentType: mimeType,
+            cacheControl: "public, max-age=31536000, immutable",
+        },
+    });
+    await db.update(users).set({ avatarKey }).where(eq(users.id, userId));
+
+    if (user?.avatarKey && user.avatarKey !== avatarKey) {
+        await bucket.delete(user.avatarKey);
+    }
+    return avatarKey;
+};
+
+/**
+ * Removes a user's avatar from R2 and their profile.
+ * @returns True if the user had an avatar.
+ */
+export const removeAvatar = async (
+    db: DB,
+    bucket: R2Bucket,
+    userId: number,
+): Promise<boolean> => {
+    const user = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: { avatarKey: true },
+    });
+    if (!user?.avatarKey) {
+        return false;
+    }
+
+    await db.update(users).set({ avatarKey: null }).where(eq(users.id, userId));
+    await bucket.delete(user.avatarKey);
+    return true;
+};
+
+/**
+ * Builds the public URL of an avatar.
+ * Uses AVATAR_BASE_URL (e.g. an R2 custom domain) when configured, otherwise
+ * the Worker serves the image itself under /users/avatars/.
+ * @returns The URL, or null if the user has no avatar.
+ */
+export const getAvatarUrl = (
+    c: AppContext,
+    avatarKey: string | null | undefined,
+): string | null => {
+    if (!avatarKey) {
+        return null;
+    }
+    const baseUrl = c.env.AVATAR_BASE_URL || `${new URL(c.req.url).origin}/users`;
+    return `${baseUrl.replace(/\/$/, "")}/${avatarKey}`;
+};
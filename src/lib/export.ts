@@ -0,0 +1,362 @@
+// src/lib/export.ts
+import { and, eq, inArray, lte, or } from "drizzle-orm";
+import { strToU8, zipSync } from "fflate";
+import type { DB } from "../db";
+import {
+    dataExports,
+    deviceTokens,
+    friendships,
+    sessionResponses,
+    smokingSessions,
+    users,
+} from "../db/schema";
+
+// --- Personal Data Export ---
+
+export type ExportFormat = "json" | "csv";
+
+// Exports with more rows than this are generated in the background
+export const EXPORT_SYNC_ROW_LIMIT = 1000;
+
+// How long a finished archive stays downloadable
+const EXPORT_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// Background jobs stuck in 'processing' longer than this are retried
+const EXPORT_STALE_MS = 15 * 60 * 1000; // 15 minutes
+
+type Row = Record<string, string | number | boolean | Date | null>;
+
+export interface UserDataExport {
+    exportedAt: Date;
+    profile: Row;
+    friendships: Row[];
+    smokingSessions: Row[];
+    sessionResponses: Row[];
+    devices: Row[];
+}
+
+/**
+ * Matches session responses the user wrote or received on their own sessions.
+ * Own sessions are a subquery rather than a list of IDs, since D1 limits
+ * statements to 100 bound parameters.
+ */
+const userSessionResponses = (db: DB, userId: number) =>
+    or(
+        eq(sessionResponses.responderId, userId),
+        inArray(
+            sessionResponses.sessionId,
+            db
+                .select({ id: smokingSessions.id })
+                .from(smokingSessions)
+                .where(eq(smokingSessions.userId, userId)),
+        ),
+    );
+
+/**
+ * Estimates how many rows an export for this user would contain.
+ * Used to decide between an inline download and a background job.
+ */
+export const countUserExportRows = async (
+    db: DB,
+    userId: number,
+): Promise<number> => {
+    const [friendshipRows, sessionRows, responseRows, deviceRows] =
+        await Promise.all([
+            db.$count(
+                friendships,
+                or(eq(friendships.userId1, userId), eq(friendships.userId2, userId)),
+            ),
+            db.$count(smokingSessions, eq(smokingSessions.userId, userId)),
+            db.$count(sessionResponses, userSessionResponses(db, userId)),
+            db.$count(deviceTokens, eq(deviceTokens.userId, userId)),
+        ]);
+    return 1 + friendshipRows + sessionRows + responseRows + deviceRows;
+};
+
+/**
+ * Collects everything we store about a user.
+ * Session responses include both the ones the user wrote and the ones
+ * written by friends on the user's own sessions.
+ */
+export const collectUserData = async (
+    db: DB,
+    userId: number,
+): Promise<UserDataExport> => {
+    const profile = await db.query.users.findFirst({
+        where: eq(users.id, userId),
+        columns: {
+            id: true,
+            username: true,
+            fullName: true,
+            email: true,
+            createdAt: true,
+        },
+    });
+    if (!profile) {
+        throw new Error(`User ${userId} not found for export.`);
+    }
+
+    const [userFriendships, ownedSessions, devices, responses] = await Promise.all([
+        db.query.friendships.findMany({
+            where: or(
+                eq(friendships.userId1, userId),
+                eq(friendships.userId2, userId),
+            ),
+            with: {
+                user1: { columns: { id: true, username: true } },
+                user2: { columns: { id: true, username: true } },
+            },
+        }),
+        db.query.smokingSessions.findMany({
+            where: eq(smokingSessions.userId, userId),
+            columns: { id: true, startTime: true, endTime: true },
+        }),
+        db.query.deviceTokens.findMany({
+            where: eq(deviceTokens.userId, userId),
+            columns: {
+                token: true,
+                platform: true,
+                apnsEnvironment: true,
+                appVersion: true,
+                osVersion: true,
+                deviceName: true,
+                locale: true,
+                lastUpdated: true,
+            },
+        }),
+        db.query.sessionResponses.findMany({
+            where: userSessionResponses(db, userId),
+            with: {
+                responder: { columns: { id: true, username: true } },
+            },
+        }),
+    ]);
+
+    return {
+        exportedAt: new Date(),
+        profile,
+        friendships: userFriendships.map((f) => {
+            const friend = f.userId1 === userId ? f.user2 : f.user1;
+            return {
+                friendId: friend.id,
+                friendUsername: friend.username,
+                status: f.status,
+                // Who sent the original request
+                direction: f.userId1 === userId ? "sent" : "received",
+                createdAt: f.createdAt,
+            };
+        }),
+        smokingSessions: ownedSessions,
+        sessionResponses: responses.map((r) => ({
+            id: r.id,
+            sessionId: r.sessionId,
+            responderId: r.responder.id,
+            responderUsername: r.responder.username,
+            responseType: r.responseType,
+            timestamp: r.timestamp,
+            // 'authored' = written by the user, 'received' = on the user's session
+            role: r.responderId === userId ? "authored" : "received",
+        })),
+        devices,
+    };
+};
+
+const csvValue = (value: Row[string] | undefined): string => {
+    if (value === null || value === undefined) {
+        return "";
+    }
+    const text = value instanceof Date ? value.toISOString() : String(value);
+    // Quote fields containing separators, quotes or newlines
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (headers: string[], rows: Row[]): string => {
+    const lines = [
+        headers.join(","),
+        ...rows.map((row) => headers.map((h) => csvValue(row[h])).join(",")),
+    ];
+    return lines.join("\r\n") + "\r\n";
+};
+
+/**
+ * Serialises an export as a single JSON document or a zip of one CSV per table.
+ */
+export const renderUserExport = (
+    data: UserDataExport,
+    format: ExportFormat,
+): { body: Uint8Array; contentType: string; filename: string } => {
+    const stamp = data.exportedAt.toISOString().slice(0, 10);
+
+    if (format === "json") {
+        return {
+            body: strToU8(JSON.stringify(data, null, 2)),
+            contentType: "application/json",
+            filename: `teman-sebat-export-${stamp}.json`,
+        };
+    }
+
+    // Headers are explicit so empty tables still produce a valid CSV
+    const archive = zipSync({
+        "profile.csv": strToU8(
+            toCsv(["id", "username", "fullName", "email", "createdAt"], [data.profile]),
+        ),
+        "friendships.csv": strToU8(
+            toCsv(
+                ["friendId", "friendUsername", "status", "direction", "createdAt"],
+                data.friendships,
+            ),
+        ),
+        "smoking_sessions.csv": strToU8(
+            toCsv(["id", "startTime", "endTime"], data.smokingSessions),
+        ),
+        "session_responses.csv": strToU8(
+            toCsv(
+                [
+                    "id",
+                    "sessionId",
+                    "responderId",
+                    "responderUsername",
+                    "responseType",
+                    "timestamp",
+                    "role",
+                ],
+                data.sessionResponses,
+            ),
+        ),
+        "devices.csv": strToU8(
+            toCsv(
+                [
+                    "token",
+                    "platform",
+                    "apnsEnvironment",
+                    "appVersion",
+                    "osVersion",
+                    "deviceName",
+                    "locale",
+                    "lastUpdated",
+                ],
+                data.devices,
+            ),
+        ),
+    });
+    return {
+        body: archive,
+        contentType: "application/zip",
+        filename: `teman-sebat-export-${stamp}.zip`,
+    };
+};
+
+/**
+ * Generates the archive for a queued export job and stores it in R2.
+ * Marks the job failed instead of throwing.
+ */
+export const processDataExport = async (
+    db: DB,
+    bucket: R2Bucket,
+    exportId: string,
+): Promise<void> => {
+    const job = await db.query.dataExports.findFirst({
+        where: eq(dataExports.id, exportId),
+    });
+    if (!job || job.status === "completed") {
+        return;
+    }
+
+    await db
+        .update(dataExports)
+        .set({ status: "processing" })
+        .where(eq(dataExports.id, exportId));
+
+    try {
+        const data = await collectUserData(db, job.userId);
+        const { body, contentType, filename } = renderUserExport(data, job.format);
+        const objectKey = `exports/${job.userId}/${exportId}/${filename}`;
+
+        await bucket.put(objectKey, body, {
+            httpMetadata: {
+                contentType,
+                contentDisposition: `attachment; filename="${filename}"`,
+            },
+        });
+
+        await db
+            .update(dataExports)
+            .set({
+                status: "completed",
+                objectKey,
+                completedAt: new Date(),
+                expiresAt: new Date(Date.now() + EXPORT_TTL_MS),
+            })
+            .where(eq(dataExports.id, exportId));
+        console.log(`Data export ${exportId} for user ${job.userId} completed`);
+    } catch (error: any) {
+        console.error(`Data export ${exportId} failed:`, error);
+        await db
+            .update(dataExports)
+            .set({ status: "failed", error: error.message })
+            .where(eq(dataExports.id, exportId));
+    }
+};
+
+/**
+ * Removes all of a user's exports and their archives in R2, e.g. when they
+ * delete their account.
+ */
+export const deleteUserDataExports = async (
+    db: DB,
+    bucket: R2Bucket | undefined,
+    userId: number,
+): Promise<void> => {
+    const exports = await db
+        .delete(dataExports)
+        .where(eq(dataExports.userId, userId))
+        .returning({ objectKey: dataExports.objectKey });
+
+    const objectKeys = exports
+        .map((e) => e.objectKey)
+        .filter((key): key is string => !!key);
+    if (bucket && objectKeys.length > 0) {
+        await bucket.delete(objectKeys);
+    }
+};
+
+/**
+ * Scheduled maintenance: retries export jobs that never finished and
+ * removes expired archives from R2.
+ */
+export const runDataExportMaintenance = async (
+    db: DB,
+    bucket: R2Bucket,
+): Promise<void> => {
+    const staleBefore = new Date(Date.now() - EXPORT_STALE_MS);
+    const unfinished = await db.query.dataExports.findMany({
+        where: and(
+            inArray(dataExports.status, ["pending", "processing"]),
+            lte(dataExports.createdAt, staleBefore),
+        ),
+        columns: { id: true },
+    });
+    for (const job of unfinished) {
+        await processDataExport(db, bucket, job.id);
+    }
+
+    const expired = await db.query.dataExports.findMany({
+        where: lte(dataExports.expiresAt, new Date()),
+        columns: { id: true, objectKey: true },
+    });
+    if (expired.length > 0) {
+        const objectKeys = expired
+            .map((e) => e.objectKey)
+            .filter((key): key is string => !!key);
+        if (objectKeys.length > 0) {
+            await bucket.delete(objectKeys);
+        }
+        await db.delete(dataExports).where(
+            inArray(
+                dataExports.id,
+                expired.map((e) => e.id),
+            ),
+        );
+        console.log(`Removed ${expired.length} expired data exports`);
+    }
+};
@@ -0,0 +1,395 @@
+// src/lib/fcm.ts
+import * as jose from "jose";
+import type { AppEnv } from "../types";
+import { createDbClient } from "../db";
+import {
+    type ApnsPayload,
+    type PushDeliveryResult,
+    type PushSendResult,
+    failedResult,
+    parseRetryAfter,
+} from "./apns";
+import { pruneInvalidDeviceTokens } from "./notifications";
+
+// --- Firebase Cloud Messaging (HTTP v1) ---
+
+// Fields of the service account JSON downloaded from the Firebase console
+interface FcmServiceAccount {
+    project_id: string;
+    client_email: string;
+    private_key: string; // PKCS#8 PEM
+    token_uri?: string; // OAuth token endpoint; a local stub in development
+}
+
+// The subset of the FCM v1 `Message` resource we send
+export interface FcmMessage {
+    token: string;
+    notification: { title?: string; body: string };
+    data: Record<string, string>; // FCM only accepts string values
+    android: {
+        priority: "high" | "normal";
+        notification: {
+            sound?: string;
+            notification_priority?: "PRIORITY_LOW" | "PRIORITY_DEFAULT" | "PRIORITY_HIGH";
+            notification_count?: number; // Launcher badge, where supported
+        };
+    };
+}
+
+const DEFAULT_TOKEN_URI = "https://oauth2.googleapis.com/token";
+const DEFAULT_FCM_HOST = "https://fcm.googleapis.com";
+const FCM_SCOPE = "https://www.googleapis.com/auth/firebase.messaging";
+
+// FCM error codes meaning the token itself is dead (app uninstalled or another project's token)
+const INVALID_TOKEN_ERROR_CODES = new Set(["UNREGISTERED", "SENDER_ID_MISMATCH"]);
+
+/**
+ * Decodes the Base64 encoded service account JSON.
+ */
+const decodeServiceAccount = (base64Json: string): FcmServiceAccount => {
+    try {
+        return JSON.parse(atob(base64Json));
+    } catch (error: any) {
+        console.error("Failed to decode Base64 FCM service account:", error);
+        throw new Error(`FCM service account decode failed: ${error.message}`);
+    }
+};
+
+/**
+ * Maps an APNS payload onto an FCM message, so every notification type is
+ * built once and reaches both platforms. Custom fields become `data`, the
+ * badge becomes the notification count and a quiet-hours (passive) alert
+ * becomes a low-priority notification without sound.
+ */
+export const toFcmMessage = (token: string, payload: ApnsPayload): FcmMessage => {
+    const { aps, ...custom } = payload;
+    const data: Record<string, string> = {};
+    for (const [key, value] of Object.entries(custom)) {
+        if (value === null || value === undefined) {
+            continue;
+        }
+        data[key] = typeof value === "string" ? value : JSON.stringify(value);
+    }
+
+    const passive = aps["interruption-level"] === "passive";
+    return {
+        token,
+        notification: { title: aps.alert.title, body: aps.alert.body },
+        data,
+        android: {
+            priority: passive ? "normal" : "high",
+            notification: {
+                ...(aps.sound && { sound: "default" }),
+                ...(passive && { notification_priority: "PRIORITY_LOW" }),
+                ...(aps.badge !== undefined && { notification_count: aps.badge }),
+            },
+        },
+    };
+};
+
+/**
+ * Builds a per-token result from an FCM response.
+ * Error bodies carry the FCM error code in `error.details[].errorCode`.
+ */
+const parseFcmResponse = (
+    token: string,
+    status: number,
+    responseBody: string,
+): PushDeliveryResult => {
+    if (status === 200) {
+        return {
+            token,
+            success: true,
+            status,
+            reason: null,
+            unregisteredAt: null,
+            invalidToken: false,
+            retryable: false,
+        };
+    }
+
+    let reason: string | null = null;
+    try {
+        const { error } = JSON.parse(responseBody);
+        const fcmError = error?.details?.find((d: any) => typeof d?.errorCode === "string");
+        reason = fcmError?.errorCode ?? error?.status ?? null;
+    } catch {
+        // Not JSON; the status is all we have
+    }
+
+    return {
+        token,
+        success: false,
+        status,
+        reason,
+        unregisteredAt: null,
+        invalidToken: reason !== null && INVALID_TOKEN_ERROR_CODES.has(reason),
+        // A rejected access token is replaced before the next attempt
+        retryable: status === 401 || status === 429 || status >= 500,
+    };
+};
+
+/**
+ * Sends one message. Never throws: FCM rejections and network errors are
+ * returned as a failed result.
+ */
+const sendFcmMessage = async (
+    url: string,
+    accessToken: string,
+    message: FcmMessage,
+): Promise<PushDeliveryResult> => {
+    const shortToken = `${message.token.substring(0, 5)}...${message.token.substring(message.token.length - 5)}`;
+    console.log(`Sending FCM to ${shortToken}`);
+
+    try {
+        const response = await fetch(url, {
+            method: "POST",
+            headers: {
+                authorization: `Bearer ${accessToken}`,
+                "Content-Type": "application/json",
+            },
+            body: JSON.stringify({ message }),
+        });
+        const result: PushDeliveryResult = {
+            ...parseFcmResponse(
+                message.token,
+                response.status,
+                response.ok ? "" : await response.text(),
+            ),
+            retryAfterSeconds: parseRetryAfter(response.headers.get("retry-after")),
+        };
+
+        if (result.success) {
+            console.log(`FCM Success for token ${shortToken}: ${response.status}`);
+        } else {
+            console.error(
+                `FCM request failed for token ${shortToken}: ${response.status} ${response.statusText} - Reason: ${result.reason ?? "Unknown"}`,
+            );
+        }
+        return result;
+    } catch (error: any) {
+        console.error(`FCM fetch failed for token ${shortToken}:`, error);
+        return failedResult(message.token, null);
+    }
+};
+
+// --- FCM Client ---
+
+// Google access tokens last an hour (`expires_in`); replace them a little early
+const ACCESS_TOKEN_REFRESH_MARGIN_MS = 5 * 60 * 1000;
+const DEFAULT_ACCESS_TOKEN_TTL_SECONDS = 3600;
+
+interface AccessToken {
+    token: string;
+    expiresAt: number; // Epoch milliseconds
+}
+
+/**
+ * Sends messages with one service account.
+ * The private key is imported once and the OAuth access token is reused until
+ * shortly before it expires, instead of a token exchange for every batch.
+ */
+export class FcmClient {
+    private signingKey?: Promise<CryptoKey>;
+    private accessToken?: AccessToken;
+    private pendingAccessToken?: Promise<AccessToken>;
+
+    constructor(
+        private readonly account: FcmServiceAccount,
+        private readonly host: string = DEFAULT_FCM_HOST,
+    ) {}
+
+    private get tokenUri(): string {
+        return this.account.token_uri || DEFAULT_TOKEN_URI;
+    }
+
+    private importSigningKey(): Promise<CryptoKey> {
+        if (!this.signingKey) {
+            this.signingKey = jose.importPKCS8(
+                this.account.private_key.replace(/\\n/g, "\n"),
+                "RS256",
+            );
+            // Let a failed import be retried on the next send
+            this.signingKey.catch(() => (this.signingKey = undefined));
+        }
+        return this.signingKey;
+    }
+
+    /**
+     * Exchanges a service-account JWT for an OAuth access token.
+     */
+    private async requestAccessToken(): Promise<AccessToken> {
+        const assertion = await new jose.SignJWT({ scope: FCM_SCOPE })
+            .setProtectedHeader({ alg: "RS256", typ: "JWT" })
+            .setIssuer(this.account.client_email)
+            .setAudience(this.tokenUri)
+            .setIssuedAt()
+            .setExpirationTime("1h")
+            .sign(await this.importSigningKey());
+
+        const requestedAt = Date.now();
+        const response = await fetch(this.tokenUri, {
+            method: "POST",
+            headers: { "Content-Type": "application/x-www-form-urlencoded" },
+            body: new URLSearchParams({
+                grant_type: "urn:ietf:params:oauth:grant-type:jwt-bearer",
+                assertion,
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(
+                `FCM access token exchange failed: ${response.status} ${await response.text()}`,
+            );
+        }
+        const { access_token, expires_in } = (await response.json()) as {
+            access_token?: string;
+            expires_in?: number;
+        };
+        if (!access_token) {
+            throw new Error("FCM access token exchange returned no access_token");
+        }
+        console.log(`Obtained a new FCM access token for ${this.account.client_email}`);
+        return {
+            token: access_token,
+            expiresAt:
+                requestedAt +
+                (expires_in ?? DEFAULT_ACCESS_TOKEN_TTL_SECONDS) * 1000 -
+                ACCESS_TOKEN_REFRESH_MARGIN_MS,
+        };
+    }
+
+    /**
+     * Returns the current access token, exchanging a new one when it is about
+     * to expire. Concurrent callers share one exchange.
+     */
+    async getAccessToken(): Promise<string> {
+        if (this.accessToken && Date.now() < this.accessToken.expiresAt) {
+            return this.accessToken.token;
+        }
+        if (!this.pendingAccessToken) {
+            this.pendingAccessToken = this.requestAccessToken()
+                .then((accessToken) => (this.accessToken = accessToken))
+                .finally(() => (this.pendingAccessToken = undefined));
+        }
+        return (await this.pendingAccessToken).token;
+    }
+
+    /**
+     * Drops an access token FCM rejected, unless it was already replaced.
+     */
+    private invalidateAccessToken(token: string): void {
+        if (this.accessToken?.token === token) {
+            this.accessToken = undefined;
+        }
+    }
+
+    /**
+     * Sends a payload to several registration tokens concurrently
+     * (FCM v1 has no batch endpoint).
+     */
+    async sendBatch(deviceTokens: string[], payload: ApnsPayload): Promise<PushSendResult> {
+        let accessToken: string;
+        try {
+            accessToken = await this.getAccessToken();
+        } catch (error) {
+            console.error("Failed to obtain FCM access token:", error);
+            return {
+                successCount: 0,
+                failureCount: deviceTokens.length,
+                results: deviceTokens.map((token) => failedResult(token, "AccessTokenError")),
+            };
+        }
+
+        const url = `${this.host.replace(/\/$/, "")}/v1/projects/${this.account.project_id}/messages:send`;
+        const results = await Promise.all(
+            deviceTokens.map((token) =>
+                sendFcmMessage(url, accessToken, toFcmMessage(token, payload)),
+            ),
+        );
+        if (results.some((r) => r.status === 401)) {
+            this.invalidateAccessToken(accessToken);
+        }
+
+        const successCount = results.filter((r) => r.success).length;
+        return { successCount, failureCount: results.length - successCount, results };
+    }
+}
+
+// Clients are kept per isolate so the access token survives between requests
+const fcmClients = new Map<string, FcmClient>();
+
+/**
+ * Returns the FCM client for the configured service account.
+ * @returns The client, or null if FCM is not configured.
+ */
+export const getFcmClient = (env: AppEnv["Bindings"]): FcmClient | null => {
+    if (!env.FCM_SERVICE_ACCOUNT_BASE64) {
+        console.error("FCM configuration missing in environment variables.");
+        return null;
+    }
+
+    const key = `${env.FCM_SERVICE_ACCOUNT_BASE64}|${env.FCM_HOST ?? ""}`;
+    let client = fcmClients.get(key);
+    if (!client) {
+        let account: FcmServiceAccount;
+        try {
+            account = decodeServiceAccount(env.FCM_SERVICE_ACCOUNT_BASE64);
+        } catch {
+            return null;
+        }
+        client = new FcmClient(account, env.FCM_HOST || undefined);
+        fcmClients.set(key, client);
+    }
+    return client;
+};
+
+/**
+ * Sends an APNS-shaped payload to Android device tokens through FCM.
+ * Tokens FCM reports as unregistered are removed from the database.
+ * @param env The Cloudflare Worker environment bindings.
+ * @param deviceTokens List of FCM registration tokens.
+ * @param payload The notification payload, as built for APNS.
+ * @returns Promise resolving with success and failure counts and per-token results.
+ */
+export const sendFcmNotifications = async (
+    env: AppEnv["Bindings"],
+    deviceTokens: string[],
+    payload: ApnsPayload,
+): Promise<PushSendResult> => {
+    if (deviceTokens.length === 0) {
+        return { successCount: 0, failureCount: 0, results: [] };
+    }
+    const client = getFcmClient(env);
+    if (!client) {
+        return {
+            successCount: 0,
+            failureCount: deviceTokens.length,
+            results: deviceTokens.map((token) => failedResult(token, "ConfigurationMissing")),
+        };
+    }
+
+    const attemptedAt = new Date();
+    const { successCount, failureCount, results } = await client.sendBatch(
+        deviceTokens,
+        payload,
+    );
+    console.log(`FCM Batch Send Results: ${successCount} succeeded, ${failureCount} failed.`);
+
+    const invalidResults = results.filter((r) => r.invalidToken);
+    if (invalidResults.length > 0) {
+        try {
+            const pruned = await pruneInvalidDeviceTokens(
+                createDbClient(env.DB),
+                invalidResults,
+                attemptedAt,
+            );
+            console.log(
+                `Removed ${pruned} of ${invalidResults.length} device tokens rejected by FCM.`,
+            );
+        } catch (error) {
+            console.error("Failed to prune invalid device tokens:", error);
+        }
+    }
+
+    return { successCount, failureCount, results };
+};
@@ -0,0 +1,65 @@
+// src/lib/friends.ts
+import { and, eq, or } from "drizzle-orm";
+import type { DB } from "../db";
+import { friendships } from "../db/schema";
+
+// --- Friendship Helpers ---
+
+export type FriendshipStatus = "accepted" | "pending" | "none";
+export type FriendshipDirection = "sent" | "received" | null;
+
+/**
+ * Describes a friendship row from the viewer's point of view.
+ * @param friendship The row between the viewer and another user, if any.
+ * @param viewerId The current user.
+ * @returns The status, plus who sent the request while it is pending.
+ */
+export const describeFriendship = (
+    friendship: typeof friendships.$inferSelect | undefined,
+    viewerId: number,
+): { status: FriendshipStatus; direction: FriendshipDirection } => {
+    if (!friendship) {
+        return { status: "none", direction: null };
+    }
+    return {
+        status: friendship.status,
+        // If userId1 is the viewer, they sent the request
+        direction:
+            friendship.status === "pending"
+                ? friendship.userId1 === viewerId
+                    ? "sent"
+                    : "received"
+                : null,
+    };
+};
+
+/**
+ * Finds the friendship row between two users, in either direction.
+ */
+export const findFriendship = async (
+    db: DB,
+    userIdA: number,
+    userIdB: number,
+): Promise<typeof friendships.$inferSelect | undefined> =>
+    db.query.friendships.findFirst({
+        where: or(
+            and(eq(friendships.userId1, userIdA), eq(friendships.userId2, userIdB)),
+            and(eq(friendships.userId1, userIdB), eq(friendships.userId2, userIdA)),
+        ),
+    });
+
+/**
+ * Returns the IDs of a user's accepted friends.
+ */
+export const getFriendIds = async (db: DB, userId: number): Promise<number[]> => {
+    const rows = await db.query.friendships.findMany({
+        where: and(
+            or(eq(friendships.userId1, userId), eq(friendships.userId2, userId)),
+            eq(friendships.status, "accepted"),
+        ),
+        columns: { userId1: true, userId2: true },
+    });
+    return rows
+        .map((f) => (f.userId1 === userId ? f.userId2 : f.userId1))
+        .filter((id) => id !== userId);
+};
@@ -0,0 +1,162 @@
+// src/lib/i18n.ts
+import type { MiddlewareHandler } from "hono";
+import type { AppEnv } from "../types";
+import en from "./locales/en";
+import id from "./locales/id";
+
+// --- Locales ---
+
+export const SUPPORTED_LOCALES = ["en", "id"] as const;
+
+export type Locale = (typeof SUPPORTED_LOCALES)[number];
+
+// Used when neither the user, the device nor the request names a supported language
+export const DEFAULT_LOCALE: Locale = "en";
+
+// A translation, or one translation per plural category (Intl.PluralRules) of `{count}`
+export type Message = string | Partial<Record<Intl.LDMLPluralRule, string>> & { other: string };
+
+// Message ID (the English text, with `{param}` placeholders) -> translation
+export type Catalog = Record<string, Message>;
+
+// English needs entries only where the message ID alone can't express plurals
+const CATALOGS: Record<Locale, Catalog> = { en, id };
+
+/**
+ * Maps a BCP 47 tag ("id-ID", "en_US", "in") onto a supported locale.
+ * @returns The locale, or null if the language is not supported.
+ */
+export const parseLocale = (tag: string | null | undefined): Locale | null => {
+    const language = tag?.trim().toLowerCase().split(/[-_]/)[0];
+    if (language === "in") {
+        return "id"; // Legacy ISO 639 code still reported by older Android versions
+    }
+    return SUPPORTED_LOCALES.find((locale) => locale === language) ?? null;
+};
+
+/**
+ * Picks the best supported locale from an Accept-Language header.
+ */
+export const negotiateLocale = (acceptLanguage: string | null | undefined): Locale => {
+    const ranked = (acceptLanguage ?? "")
+        .split(",")
+        .map((part) => {
+            const [tag, ...params] = part.trim().split(";");
+            const q = params.find((p) => p.trim().startsWith("q="));
+            return { tag, q: q ? Number(q.trim().slice(2)) || 0 : 1 };
+        })
+        .filter((entry) => entry.tag && entry.q > 0)
+        .sort((a, b) => b.q - a.q);
+    for (const { tag } of ranked) {
+        const locale = parseLocale(tag);
+        if (locale) {
+            return locale;
+        }
+    }
+    return DEFAULT_LOCALE;
+};
+
+// --- Translation ---
+
+const interpolate = (template: string, params: Record<string, string | number>): string =>
+    template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+        name in params ? String(params[name]) : placeholder,
+    );
+
+/**
+ * Translates a message.
+ * @param locale Target locale.
+ * @param message The message ID: English text with `{param}` placeholders.
+ * @param params Placeholder values; a numeric `count` selects the plural form.
+ * @returns The translation, or the interpolated message ID if there is none.
+ */
+export const t = (
+    locale: Locale,
+    message: string,
+    params: Record<string, string | number> = {},
+): string => {
+    const entry = CATALOGS[locale][message] ?? message;
+    if (typeof entry === "string") {
+        return interpolate(entry, params);
+    }
+    const category =
+        typeof params.count === "number"
+            ? new Intl.PluralRules(locale).select(params.count)
+            : "other";
+    return interpolate(entry[category] ?? entry.other, params);
+};
+
+// Message IDs with placeholders, matched against already formatted English text
+const TEMPLATE_PATTERNS = Object.keys(CATALOGS.id)
+    .filter((message) => message.includes("{"))
+    .map((message) => {
+        const names: string[] = [];
+        const source = message
+            .split(/(\{\w+\})/)
+            .map((part) => {
+                const placeholder = part.match(/^\{(\w+)\}$/);
+                if (placeholder) {
+                    names.push(placeholder[1]);
+                    return "(.+?)";
+                }
+                return part.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+            })
+            .join("");
+        return { message, names, pattern: new RegExp(`^${source}$`) };
+    });
+
+/**
+ * Translates English text produced by the API, e.g. an error message.
+ * Text built from a template (`Invalid session ID: 42`) is matched against the
+ * catalog's templates to recover its parameters.
+ * @returns The translation, or the text unchanged if the catalog has none.
+ */
+export const translateText = (locale: Locale, text: string): string => {
+    if (locale === "en" || CATALOGS[locale][text] !== undefined) {
+        return t(locale, text);
+    }
+    for (const { message, names, pattern } of TEMPLATE_PATTERNS) {
+        const match = text.match(pattern);
+        if (match) {
+            const params = Object.fromEntries(names.map((name, i) => [name, match[i + 1]]));
+            return t(locale, message, params);
+        }
+    }
+    return text;
+};
+
+// --- Middleware ---
+
+/**
+ * Negotiates the request locale (`c.var.locale`) from Accept-Language and
+ * translates the `error` of JSON error responses, so handlers keep returning
+ * English messages.
+ */
+export const localizeErrors: MiddlewareHandler<AppEnv> = async (c, next) => {
+    const locale = negotiateLocale(c.req.header("Accept-Language"));
+    c.set("locale", locale);
+    await next();
+
+    if (
+        locale === "en" ||
+        c.res.status < 400 ||
+        !c.res.headers.get("Content-Type")?.includes("application/json")
+    ) {
+        return;
+    }
+    try {
+        const body = await c.res.clone().json<Record<string, unknown>>();
+        if (typeof body?.error !== "string") {
+            return;
+        }
+        const headers = new Headers(c.res.headers);
+        headers.delete("Content-Length");
+        headers.set("Content-Language", locale);
+        c.res = new Response(
+            JSON.stringify({ ...body, error: translateText(locale, body.error) }),
+            { status: c.res.status, headers },
+        );
+    } catch (error) {
+        console.error("Failed to localize error response:", error);
+    }
+};
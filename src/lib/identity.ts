@@ -0,0 +1,477 @@
+// src/lib/identity.ts
+import * as jose from "jose";
+import type { JWTPayload, JWTVerifyGetKey } from "jose";
+import { and, eq, sql } from "drizzle-orm";
+import { z } from "zod";
+import type { AppEnv } from "../types";
+import type { DB } from "../db";
+import { users, userIdentities } from "../db/schema";
+
+// --- Identity Provider Abstraction ---
+
+/**
+ * Normalised identity extracted from a verified ID token.
+ */
+export interface IdentityClaims {
+    subject: string; // Stable user ID at the provider ('sub' claim)
+    email: string | null; // Only set when the provider says it is verified
+    name: string | null; // Display name, if the provider includes one
+}
+
+/**
+ * An external identity provider whose ID tokens we accept.
+ */
+export interface IdentityProvider {
+    id: string; // Short identifier stored in user_identities.provider, e.g. "apple"
+    issuer: string | string[]; // Accepted 'iss' claim value(s)
+    audience: string | string[]; // Accepted 'aud' claim value(s) (our client/bundle IDs)
+    keys: JWTVerifyGetKey; // Source of the provider's signing keys
+    mapClaims: (payload: JWTPayload) => IdentityClaims;
+}
+
+/**
+ * Maps the standard OIDC claims, accepting the email only if it is verified.
+ * Apple sends `email_verified` as either a boolean or the string "true".
+ */
+const mapStandardClaims = (payload: JWTPayload): IdentityClaims => {
+    if (!payload.sub) {
+        throw new Error("Identity token 'sub' claim is missing.");
+    }
+    const emailVerified =
+        payload.email_verified === true || payload.email_verified === "true";
+    return {
+        subject: payload.sub,
+        email:
+            payload.email && emailVerified ? (payload.email as string) : null,
+        name: typeof payload.name === "string" ? payload.name : null,
+    };
+};
+
+// --- Apple ---
+
+const APPLE_ISSUER = "https://appleid.apple.com";
+
+// URL for Apple's public keys
+const APPLE_PUBLIC_KEY_URL = "https://appleid.apple.com/auth/keys";
+
+// Create a remote JSON Web Key Set (JWKS) instance
+// This will fetch and cache Apple's public keys
+const appleJWKS = jose.createRemoteJWKSet(new URL(APPLE_PUBLIC_KEY_URL));
+
+/**
+ * Sign in with Apple.
+ * @param audience The expected audience (your app's bundle ID).
+ */
+export const createAppleProvider = (audience: string): IdentityProvider => ({
+    id: "apple",
+    issuer: APPLE_ISSUER,
+    audience,
+    keys: appleJWKS,
+    mapClaims: mapStandardClaims,
+});
+
+// --- Google & Generic OIDC Providers ---
+
+// Google issues tokens with either form of its issuer
+const GOOGLE_ISSUERS = ["https://accounts.google.com", "accounts.google.com"];
+const GOOGLE_JWKS_URL = "https://www.googleapis.com/oauth2/v3/certs";
+
+// Configuration for a standards-compliant OIDC issuer
+export interface OidcProviderConfig {
+    issuer: string;
+    jwksUrl: string;
+    audience: string | string[];
+}
+
+// Remote JWKS instances, cached per isolate so keys are fetched once
+const remoteJWKSCache = new Map<string, JWTVerifyGetKey>();
+
+const getRemoteJWKS = (jwksUrl: string): JWTVerifyGetKey => {
+    let jwks = remoteJWKSCache.get(jwksUrl);
+    if (!jwks) {
+        jwks = jose.createRemoteJWKSet(new URL(jwksUrl));
+        remoteJWKSCache.set(jwksUrl, jwks);
+    }
+    return jwks;
+};
+
+/**
+ * Builds a provider for any OIDC issuer from its configuration.
+ */
+export const createOidcProvider = (
+    id: string,
+    config: OidcProviderConfig,
+): IdentityProvider => ({
+    id,
+    issuer: config.issuer,
+    audience: config.audience,
+    keys: getRemoteJWKS(config.jwksUrl),
+    mapClaims: mapStandardClaims,
+});
+
+/**
+ * Google Sign-In.
+ * @param clientIds Comma-separated OAuth client IDs (iOS, Android, web) accepted as audience.
+ */
+export const createGoogleProvider = (clientIds: string): IdentityProvider => ({
+    ...createOidcProvider("google", {
+        issuer: GOOGLE_ISSUERS[0],
+        jwksUrl: GOOGLE_JWKS_URL,
+        audience: clientIds.split(",").map((id) => id.trim()),
+    }),
+    issuer: GOOGLE_ISSUERS,
+});
+
+/**
+ * Parses the OIDC_PROVIDERS binding: a JSON object of provider ID to config.
+ */
+const parseOidcProvidersBinding = (
+    raw: string | undefined,
+): Record<string, OidcProviderConfig> => {
+    if (!raw) {
+        return {};
+    }
+    try {
+        return JSON.parse(raw);
+    } catch (error: any) {
+        console.error("Invalid OIDC_PROVIDERS configuration:", error.message);
+        return {};
+    }
+};
+
+/**
+ * Looks up an enabled identity provider by ID.
+ * @returns The provider, or null if it is unknown or not configured.
+ */
+export const getIdentityProvider = (
+    env: AppEnv["Bindings"],
+    providerId: string,
+): IdentityProvider | null => {
+    switch (providerId) {
+        case "apple":
+            return createAppleProvider(env.APPLE_BUNDLE_ID);
+        case "google":
+            return env.GOOGLE_CLIENT_ID
+                ? createGoogleProvider(env.GOOGLE_CLIENT_ID)
+                : null;
+        case "local":
+            return createLocalProvider(env);
+    }
+
+    const config = parseOidcProvidersBinding(env.OIDC_PROVIDERS)[providerId];
+    if (!config?.issuer || !config.jwksUrl || !config.audience) {
+        return null;
+    }
+    return createOidcProvider(providerId, config);
+};
+
+/**
+ * Counts the ways a user can still sign in: a password, plus each linked
+ * identity whose provider is configured on this deployment.
+ * @param hasPassword Whether the user has a password hash.
+ * @param identities The user's linked identities (minus any about to be removed).
+ */
+export const countUsableSignInMethods = (
+    env: AppEnv["Bindings"],
+    hasPassword: boolean,
+    identities: { provider: string }[],
+): number =>
+    (hasPassword ? 1 : 0) +
+    identities.filter((identity) => getIdentityProvider(env, identity.provider) !== null)
+        .length;
+
+// --- Local (offline) Provider ---
+
+// Default issuer for tokens minted by scripts/local-idp.ts
+export const LOCAL_IDP_DEFAULT_ISSUER = "https://local-idp.teman-sebat.invalid";
+
+// Parsed JWKS cache, keyed by the raw binding value
+let localJWKSCache: { raw: string; keys: JWTVerifyGetKey } | null = null;
+let localIdpMisconfigurationLogged = false;
+
+/**
+ * A development-only provider that trusts a static JWKS from the
+ * LOCAL_IDP_JWKS binding, so sign-in can be exercised without network access.
+ * Only enabled when ENVIRONMENT is 'development': whoever holds the local key
+ * could otherwise sign in as anyone.
+ * @returns The provider, or null when the binding is not configured or this
+ *   is not a development deployment.
+ */
+export const createLocalProvider = (
+    env: AppEnv["Bindings"],
+): IdentityProvider | null => {
+    if (!env.LOCAL_IDP_JWKS) {
+        return null;
+    }
+    if (env.ENVIRONMENT !== "development") {
+        if (!localIdpMisconfigurationLogged) {
+            console.error(
+                "LOCAL_IDP_JWKS is set outside development (ENVIRONMENT is not 'development'); the local identity provider stays disabled. Remove the binding.",
+            );
+            localIdpMisconfigurationLogged = true;
+        }
+        return null;
+    }
+
+    if (!localJWKSCache || localJWKSCache.raw !== env.LOCAL_IDP_JWKS) {
+        localJWKSCache = {
+            raw: env.LOCAL_IDP_JWKS,
+            keys: jose.createLocalJWKSet(JSON.parse(env.LOCAL_IDP_JWKS)),
+        };
+    }
+
+    return {
+        id: "local",
+        issuer: env.LOCAL_IDP_ISSUER || LOCAL_IDP_DEFAULT_ISSUER,
+        audience: env.APPLE_BUNDLE_ID,
+        keys: localJWKSCache.keys,
+        mapClaims: mapStandardClaims,
+    };
+};
+
+/**
+ * Returns the providers that may stand in for Sign in with Apple:
+ * Apple itself, plus the local provider in development.
+ */
+export const getAppleSignInProviders = (
+    env: AppEnv["Bindings"],
+): IdentityProvider[] => {
+    const providers = [createAppleProvider(env.APPLE_BUNDLE_ID)];
+    const localProvider = createLocalProvider(env);
+    if (localProvider) {
+        providers.push(localProvider);
+    }
+    return providers;
+};
+
+// --- Verification ---
+
+/**
+ * Verifies an ID token against one of the given providers, chosen by its 'iss' claim.
+ * @param idToken The ID token received from the client.
+ * @param providers Providers accepted for this request.
+ * @param options.maxTokenAge Reject tokens issued longer ago than this (e.g. "10m").
+ * @returns The provider that issued the token, its verified payload and mapped claims.
+ * @throws {Error} If no provider matches or verification fails.
+ */
+export const verifyIdentityToken = async (
+    idToken: string,
+    providers: IdentityProvider[],
+    options: { maxTokenAge?: string } = {},
+): Promise<{
+    provider: IdentityProvider;
+    payload: JWTPayload;
+    claims: IdentityClaims;
+}> => {
+    try {
+        // Peek at the unverified issuer only to pick the right key source
+        const { iss } = jose.decodeJwt(idToken);
+        const provider = providers.find((p) =>
+            Array.isArray(p.issuer) ? p.issuer.includes(iss!) : p.issuer === iss,
+        );
+        if (!provider) {
+            throw new Error(`unknown issuer ${iss}`);
+        }
+
+        const { payload } = await jose.jwtVerify(idToken, provider.keys, {
+            issuer: provider.issuer,
+            audience: provider.audience,
+            maxTokenAge: options.maxTokenAge,
+        });
+
+        return { provider, payload, claims: provider.mapClaims(payload) };
+    } catch (error: any) {
+        console.error("Identity token verification failed:", error.message);
+        throw new Error(
+            `Identity token verification failed: ${error.code || error.message}`,
+        );
+    }
+};
+
+// --- Account Resolution ---
+
+// Fixed path segments under /users that GET /users/:idOrUsername must not shadow
+const RESERVED_USERNAMES = new Set([
+    "me",
+    "profile",
+    "status",
+    "notification-preferences",
+    "avatars",
+    "devices",
+    "identities",
+    "sessions",
+    "tokens",
+]);
+
+/**
+ * Whether a username is unavailable because it would be read as a user ID
+ * (all digits) or collide with a fixed /users route.
+ */
+export const isReservedUsername = (username: string): boolean =>
+    /^\d+$/.test(username) || RESERVED_USERNAMES.has(username.toLowerCase());
+
+// Rules for usernames users pick themselves, on registration and profile updates
+export const usernameSchema = z
+    .string()
+    .min(3)
+    .max(30)
+    .regex(
+        /^[A-Za-z0-9_.]+$/,
+        "Username may only contain letters, numbers, underscores and dots",
+    )
+    .refine((username) => !isReservedUsername(username), {
+        message: "This username is not available",
+    });
+
+/**
+ * Generates a username that is not taken yet.
+ * Prioritizes the email's local part, then the full name, then a random string.
+ */
+export const generateUniqueUsername = async (
+    db: DB,
+    email: string | null | undefined,
+    fullName: string | null | undefined,
+): Promise<string> => {
+    let usernameBase = "";
+    if (email) {
+        usernameBase = email.split("@")[0];
+    } else if (fullName) {
+        // Create a simple username from the name if email is unavailable
+        usernameBase = fullName.replace(/\s+/g, "_").toLowerCase();
+    } else {
+        usernameBase = `user_${Math.random().toString(36).substring(2, 10)}`;
+    }
+    if (isReservedUsername(usernameBase)) {
+        usernameBase = `user_${usernameBase}`;
+    }
+
+    let username = usernameBase;
+    let attempt = 0;
+    // Ensure username uniqueness
+    while (
+        await db.query.users.findFirst({ where: eq(users.username, username) })
+    ) {
+        attempt++;
+        username = `${usernameBase}_${attempt}`;
+        if (attempt > 5) {
+            // Fallback to more randomness if simple increment fails
+            username = `${usernameBase}_${Math.random()
+                .toString(36)
+                .substring(2, 6)}`;
+        }
+    }
+    return username;
+};
+
+const isEmailTaken = async (db: DB, email: string): Promise<boolean> =>
+    !!(await db.query.users.findFirst({
+        where: eq(users.email, email),
+        columns: { id: true },
+    }));
+
+// Attempts at creating an account before giving up on repeated unique conflicts
+const CREATE_USER_ATTEMPTS = 3;
+
+/**
+ * Creates a user together with its first identity. Both rows are inserted in one
+ * D1 batch (a transaction), so a failed identity insert leaves no orphan user.
+ * @returns The new user ID, or null if a unique constraint failed because a
+ *   concurrent sign-in created the identity (or took the username) first.
+ */
+const createUserWithIdentity = async (
+    db: DB,
+    identity: { provider: string; subject: string; email: string | null },
+    profile: { username: string; fullName: string | null; email: string | null },
+): Promise<number | null> => {
+    try {
+        const [created] = await db.batch([
+            db.insert(users).values(profile).returning({ id: users.id }),
+            db.insert(userIdentities).values({
+                ...identity,
+                userId: sql`(select ${users.id} from ${users} where ${users.username} = ${profile.username})`,
+            }),
+        ]);
+        if (!created || created.length === 0) {
+            throw new Error("Failed to create new user account.");
+        }
+        return created[0].id;
+    } catch (error: any) {
+        if (error.message?.includes("UNIQUE constraint failed")) {
+            return null;
+        }
+        throw error;
+    }
+};
+
+/**
+ * Finds the user linked to a provider identity, or creates a new user for it.
+ * Existing users get a missing email or a changed full name filled in.
+ * @param db The Drizzle client.
+ * @param identity The verified provider identity plus optional profile details.
+ * @returns The user ID and whether the account was just created.
+ */
+export const findOrCreateUserForIdentity = async (
+    db: DB,
+    identity: {
+        provider: string;
+        subject: string;
+        email: string | null;
+        fullName: string | null;
+    },
+): Promise<{ userId: number; isNewUser: boolean }> => {
+    const { provider, subject, email, fullName } = identity;
+
+    for (let attempt = 1; attempt <= CREATE_USER_ATTEMPTS; attempt++) {
+        const existingIdentity = await db.query.userIdentities.findFirst({
+            where: and(
+                eq(userIdentities.provider, provider),
+                eq(userIdentities.subject, subject),
+            ),
+            with: {
+                user: { columns: { id: true, fullName: true, email: true } },
+            },
+        });
+
+        if (existingIdentity) {
+            // User exists, update their info if needed (especially if email was missing before)
+            const existingUser = existingIdentity.user;
+            const updates: Partial<typeof users.$inferInsert> = {};
+
+            // Update name only if provided AND different or missing
+            if (fullName && fullName !== existingUser.fullName) {
+                updates.fullName = fullName;
+            }
+            // Update email only if a new valid email is available and wasn't set before
+            if (email && !existingUser.email && !(await isEmailTaken(db, email))) {
+                updates.email = email;
+            }
+
+            if (Object.keys(updates).length > 0) {
+                await db.update(users).set(updates).where(eq(users.id, existingUser.id));
+            }
+            await db
+                .update(userIdentities)
+                .set({ lastUsedAt: new Date(), ...(email && { email }) })
+                .where(eq(userIdentities.id, existingIdentity.id));
+
+            return { userId: existingUser.id, isNewUser: false };
+        }
+
+        // --- Create New User ---
+        // Skip an email already used by another account rather than failing the unique constraint
+        const userEmail = email && !(await isEmailTaken(db, email)) ? email : null;
+        const username = await generateUniqueUsername(db, userEmail, fullName);
+
+        const userId = await createUserWithIdentity(
+            db,
+            { provider, subject, email },
+            { username, fullName, email: userEmail },
+        );
+        if (userId !== null) {
+            return { userId, isNewUser: true };
+        }
+        // Lost a race with a concurrent sign-in; look the identity up again
+        console.log(`Retrying account creation for ${provider} identity (attempt ${attempt})`);
+    }
+    throw new Error("Failed to create new user account.");
+};
@@ -0,0 +1,136 @@
+// src/lib/inbox.ts
+import { and, count, desc, eq, inArray, isNull, lt, lte } from "drizzle-orm";
+import type { DB } from "../db";
+import { notifications } from "../db/schema";
+import type { ApnsPayload } from "./apns";
+import type { NotificationType } from "./notifications";
+
+// --- Notification Inbox ---
+
+const INSERT_CHUNK_SIZE = 10; // Rows per INSERT; D1 allows 100 bound parameters per statement
+const USER_ID_CHUNK_SIZE = 90;
+const NOTIFICATION_TTL_MS = 90 * 24 * 60 * 60 * 1000; // Inbox entries are kept for 90 days
+
+/**
+ * Stores a notification in the inbox of each user.
+ * @param db The Drizzle client.
+ * @param payloads The notification payload rendered for each recipient, keyed
+ *   by user ID; its alert becomes the entry's text and its custom fields the entry's data.
+ * @param type The notification type.
+ */
+export const recordInboxNotifications = async (
+    db: DB,
+    payloads: Map<number, ApnsPayload>,
+    type: NotificationType,
+): Promise<void> => {
+    const rows = [...payloads].map(([userId, { aps, notificationType, ...data }]) => ({
+        userId,
+        type,
+        title: aps.alert.title ?? null,
+        body: aps.alert.body,
+        data,
+    }));
+    for (let i = 0; i < rows.length; i += INSERT_CHUNK_SIZE) {
+        await db.insert(notifications).values(rows.slice(i, i + INSERT_CHUNK_SIZE));
+    }
+};
+
+/**
+ * Counts unread inbox entries per user, for badges.
+ * @returns Unread counts keyed by user ID; users without unread entries map to 0.
+ */
+export const getUnreadCounts = async (
+    db: DB,
+    userIds: number[],
+): Promise<Map<number, number>> => {
+    const ids = [...new Set(userIds)];
+    const counts = new Map(ids.map((id) => [id, 0]));
+    for (let i = 0; i < ids.length; i += USER_ID_CHUNK_SIZE) {
+        const rows = await db
+            .select({ userId: notifications.userId, unread: count() })
+            .from(notifications)
+            .where(
+                and(
+                    inArray(notifications.userId, ids.slice(i, i + USER_ID_CHUNK_SIZE)),
+                    isNull(notifications.readAt),
+                ),
+            )
+            .groupBy(notifications.userId);
+        for (const row of rows) {
+            counts.set(row.userId, row.unread);
+        }
+    }
+    return counts;
+};
+
+/**
+ * Returns a user's unread inbox entry count.
+ */
+export const getUnreadCount = async (db: DB, userId: number): Promise<number> =>
+    db.$count(
+        notifications,
+        and(eq(notifications.userId, userId), isNull(notifications.readAt)),
+    );
+
+/**
+ * Lists a user's inbox, newest first.
+ * @param cursor Only entries older than this entry ID (the previous page's `nextCursor`).
+ * @returns The page and the cursor of the next page, null on the last page.
+ */
+export const listInboxNotifications = async (
+    db: DB,
+    userId: number,
+    options: { cursor?: number; limit: number; unreadOnly?: boolean },
+) => {
+    const rows = await db.query.notifications.findMany({
+        where: and(
+            eq(notifications.userId, userId),
+            options.cursor !== undefined ? lt(notifications.id, options.cursor) : undefined,
+            options.unreadOnly ? isNull(notifications.readAt) : undefined,
+        ),
+        columns: { userId: false },
+        orderBy: [desc(notifications.id)],
+        limit: options.limit + 1, // One extra row tells whether another page exists
+    });
+    const page = rows.slice(0, options.limit);
+    return {
+        notifications: page,
+        nextCursor: rows.length > options.limit ? page[page.length - 1].id : null,
+    };
+};
+
+/**
+ * Marks inbox entries as read.
+ * @param ids Entries to mark; all of the user's unread entries if omitted.
+ * @returns The number of entries that were unread.
+ */
+export const markInboxNotificationsRead = async (
+    db: DB,
+    userId: number,
+    ids?: number[],
+): Promise<number> => {
+    const updated = await db
+        .update(notifications)
+        .set({ readAt: new Date() })
+        .where(
+            and(
+                eq(notifications.userId, userId),
+                isNull(notifications.readAt),
+                ids ? inArray(notifications.id, ids) : undefined,
+            ),
+        )
+        .returning({ id: notifications.id });
+    return updated.length;
+};
+
+/**
+ * Deletes inbox entries older than 90 days.
+ * @returns The number of entries deleted.
+ */
+export const purgeOldInboxNotifications = async (db: DB): Promise<number> => {
+    const deleted = await db
+        .delete(notifications)
+        .where(lte(notifications.createdAt, new Date(Date.now() - NOTIFICATION_TTL_MS)))
+        .returning({ id: notifications.id });
+    return deleted.length;
+};
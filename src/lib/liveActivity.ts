@@ -0,0 +1,178 @@
+// src/lib/liveActivity.ts
+import { desc, eq, inArray, lte, sql } from "drizzle-orm";
+import type { DB } from "../db";
+import { liveActivityTokens, sessionResponses } from "../db/schema";
+import type { AppEnv } from "../types";
+import {
+    type ApnsEnvironment,
+    type LiveActivityPayload,
+    type PushDeliveryResult,
+    getApnsClient,
+} from "./apns";
+
+// --- Live Activities ---
+
+const DISMISSAL_DELAY_MS = 15 * 60 * 1000; // Ended activities stay on the lock screen this long
+// iOS ends an activity after 8 hours and removes it from the lock screen 4 hours later
+const LIVE_ACTIVITY_TOKEN_TTL_MS = 12 * 60 * 60 * 1000;
+
+// The activity's ContentState; the app decodes these keys
+export interface SessionActivityState {
+    comingCount: number;
+    comingSoonCount: number; // Responded 'coming_5'
+    doneCount: number;
+    latestResponse: {
+        username: string;
+        fullName: string | null;
+        responseType: "coming" | "done" | "coming_5";
+    } | null;
+    endedAt: number | null; // Seconds since epoch, once the owner ended the session
+}
+
+/**
+ * Registers the push token of a Live Activity following a session.
+ * A token registered again (e.g. after the app relaunched) moves to the given session.
+ */
+export const registerLiveActivityToken = async (
+    db: DB,
+    values: {
+        sessionId: number;
+        userId: number;
+        token: string;
+        apnsEnvironment?: ApnsEnvironment | null;
+    },
+): Promise<void> => {
+    await db
+        .insert(liveActivityTokens)
+        .values(values)
+        .onConflictDoUpdate({
+            target: liveActivityTokens.token,
+            set: {
+                sessionId: values.sessionId,
+                userId: values.userId,
+                apnsEnvironment: values.apnsEnvironment ?? null,
+                createdAt: sql`(unixepoch())`,
+            },
+        });
+};
+
+/**
+ * Builds a session's Live Activity state from its responses.
+ * @param endedAt When the session ended; null while it is active.
+ */
+export const getSessionActivityState = async (
+    db: DB,
+    sessionId: number,
+    endedAt: Date | null,
+): Promise<SessionActivityState> => {
+    const responses = await db.query.sessionResponses.findMany({
+        where: eq(sessionResponses.sessionId, sessionId),
+        columns: { responseType: true },
+        with: { responder: { columns: { username: true, fullName: true } } },
+        orderBy: [desc(sessionResponses.timestamp), desc(sessionResponses.id)],
+    });
+
+    const latest = responses[0];
+    return {
+        comingCount: responses.filter((r) => r.responseType === "coming").length,
+        comingSoonCount: responses.filter((r) => r.responseType === "coming_5").length,
+        doneCount: responses.filter((r) => r.responseType === "done").length,
+        latestResponse: latest
+            ? {
+                  username: latest.responder.username,
+                  fullName: latest.responder.fullName,
+                  responseType: latest.responseType,
+              }
+            : null,
+        endedAt: endedAt ? Math.floor(endedAt.getTime() / 1000) : null,
+    };
+};
+
+/**
+ * Pushes a session's current state to every Live Activity following it.
+ * Ending also dismisses the activities and forgets their tokens. Never throws,
+ * so it can run in `waitUntil` after responding.
+ * @param env The Cloudflare Worker environment bindings.
+ * @param db The Drizzle client.
+ * @param sessionId The session whose activities to update.
+ * @param endedAt When the session ended, for the 'end' event; omit for an update.
+ */
+export const sendLiveActivityUpdate = async (
+    env: AppEnv["Bindings"],
+    db: DB,
+    sessionId: number,
+    endedAt?: Date,
+): Promise<void> => {
+    try {
+        const tokens = await db.query.liveActivityTokens.findMany({
+            where: eq(liveActivityTokens.sessionId, sessionId),
+            columns: { token: true, apnsEnvironment: true },
+        });
+        if (tokens.length === 0) {
+            return;
+        }
+
+        const client = getApnsClient(env);
+        if (!client) {
+            return;
+        }
+
+        const now = Date.now();
+        const payload: LiveActivityPayload = {
+            aps: {
+                timestamp: Math.floor(now / 1000),
+                event: endedAt ? "end" : "update",
+                "content-state": await getSessionActivityState(db, sessionId, endedAt ?? null),
+                ...(endedAt && {
+                    "dismissal-date": Math.floor((now + DISMISSAL_DELAY_MS) / 1000),
+                }),
+            },
+        };
+
+        const tokensByEnvironment = new Map<ApnsEnvironment, string[]>();
+        for (const { token, apnsEnvironment } of tokens) {
+            const environment = apnsEnvironment ?? env.APNS_ENVIRONMENT;
+            tokensByEnvironment.set(environment, [
+                ...(tokensByEnvironment.get(environment) ?? []),
+                token,
+            ]);
+        }
+        const results: PushDeliveryResult[] = [];
+        for (const [environment, environmentTokens] of tokensByEnvironment) {
+            const batch = await client.sendBatch(environmentTokens, payload, environment);
+            results.push(...batch.results);
+        }
+        const successCount = results.filter((r) => r.success).length;
+        console.log(
+            `Live Activity ${payload.aps.event} for session ${sessionId}: ${successCount} of ${results.length} delivered.`,
+        );
+
+        // Ended activities get no further updates; dismissed or expired ones never will
+        const invalidTokens = results.filter((r) => r.invalidToken).map((r) => r.token);
+        if (endedAt) {
+            await db
+                .delete(liveActivityTokens)
+                .where(eq(liveActivityTokens.sessionId, sessionId));
+        } else if (invalidTokens.length > 0) {
+            await db
+                .delete(liveActivityTokens)
+                .where(inArray(liveActivityTokens.token, invalidTokens));
+        }
+    } catch (error) {
+        console.error(`Failed to update Live Activities for session ${sessionId}:`, error);
+    }
+};
+
+/**
+ * Deletes tokens of activities iOS has removed by now.
+ * @returns The number of tokens deleted.
+ */
+export const purgeExpiredLiveActivityTokens = async (db: DB): Promise<number> => {
+    const deleted = await db
+        .delete(liveActivityTokens)
+        .where(
+            lte(liveActivityTokens.createdAt, new Date(Date.now() - LIVE_ACTIVITY_TOKEN_TTL_MS)),
+        )
+        .returning({ id: liveActivityTokens.id });
+    return deleted.length;
+};
@@ -0,0 +1,12 @@
+// src/lib/locales/en.ts
+import type { Catalog } from "../i18n";
+
+// Message IDs are English already; only plural forms need entries
+const en: Catalog = {
+    "{name} is coming in {count} minutes.": {
+        one: "{name} is coming in {count} minute.",
+        other: "{name} is coming in {count} minutes.",
+    },
+};
+
+export default en;
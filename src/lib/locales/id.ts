@@ -0,0 +1,160 @@
+// src/lib/locales/id.ts
+import type { Catalog } from "../i18n";
+
+// Indonesian has no plural forms
+const id: Catalog = {
+    // --- Notifications ---
+    "Nongki Session Started": "Sesi Nongki Dimulai",
+    "{name} has started a nongki session!": "{name} mulai sesi nongki!",
+    "{name} has ended their nongki session.": "{name} sudah mengakhiri sesi nongki.",
+    "Session Response": "Tanggapan Sesi",
+    "{name} is coming!": "{name} segera datang!",
+    "{name} is done.": "{name} sudah selesai.",
+    "{name} is coming in {count} minutes.": "{name} datang dalam {count} menit.",
+    "New Friend Request": "Permintaan Pertemanan Baru",
+    "{name} sent you a friend request.": "{name} mengirim permintaan pertemanan.",
+    "Friend Request Accepted": "Permintaan Pertemanan Diterima",
+    "{name} accepted your friend request!": "{name} menerima permintaan pertemananmu!",
+
+    // --- Authentication & Accounts ---
+    "Account is scheduled for deletion": "Akun dijadwalkan untuk dihapus",
+    "Account suspended": "Akun ditangguhkan",
+    "Admin access required": "Memerlukan akses admin",
+    "Authentication failed": "Autentikasi gagal",
+    "Email already registered": "Email sudah terdaftar",
+    "Invalid Apple notification": "Notifikasi Apple tidak valid",
+    "Invalid Apple token": "Token Apple tidak valid",
+    "Invalid identity token": "Token identitas tidak valid",
+    "Invalid or expired identity token": "Token identitas tidak valid atau kedaluwarsa",
+    "Invalid or expired refresh token": "Refresh token tidak valid atau kedaluwarsa",
+    "Invalid or expired access token": "Access token tidak valid atau kedaluwarsa",
+    "Invalid or revoked access token": "Token akses tidak valid atau sudah dicabut",
+    "Invalid username or password": "Username atau kata sandi salah",
+    "Personal access tokens cannot be used for this endpoint":
+        "Token akses pribadi tidak dapat digunakan untuk endpoint ini",
+    "Access token is missing the '{scope}' scope": "Token akses tidak memiliki cakupan '{scope}'",
+    "Registration failed": "Pendaftaran gagal",
+    "Session has been revoked": "Sesi login sudah dicabut",
+    "Username already taken": "Username sudah dipakai",
+    "This username is not available": "Username ini tidak tersedia",
+    "Username or email already taken": "Username atau email sudah dipakai",
+    "Cannot remove your last sign-in method": "Metode masuk terakhir tidak dapat dihapus",
+    "This identity is already linked to another account":
+        "Identitas ini sudah terhubung ke akun lain",
+    "A different {provider} account is already linked. Unlink it first.":
+        "Akun {provider} lain sudah terhubung. Putuskan dulu.",
+    "Unknown identity provider: {provider}": "Penyedia identitas tidak dikenal: {provider}",
+    "Identity not found": "Identitas tidak ditemukan",
+    "Token not found": "Token tidak ditemukan",
+    "You can have at most {count} access tokens": "Kamu hanya dapat memiliki {count} token akses",
+    "Too many requests, please try again later": "Terlalu banyak permintaan, coba lagi nanti",
+
+    // --- Users, Devices & Exports ---
+    "User not found": "Pengguna tidak ditemukan",
+    "Target user not found": "Pengguna tujuan tidak ditemukan",
+    "Invalid user ID": "ID pengguna tidak valid",
+    "Invalid device ID": "ID perangkat tidak valid",
+    "Device not found": "Perangkat tidak ditemukan",
+    "Live Activity not found": "Live Activity tidak ditemukan",
+    "Avatar not found": "Foto profil tidak ditemukan",
+    "No avatar to remove": "Tidak ada foto profil untuk dihapus",
+    "Image is empty": "Gambar kosong",
+    "Image is too large": "Gambar terlalu besar",
+    "Image is larger than {size} MB": "Gambar lebih besar dari {size} MB",
+    "Image content does not match its content type": "Isi gambar tidak sesuai dengan tipenya",
+    "Unsupported image type, use one of: {types}":
+        "Tipe gambar tidak didukung, gunakan salah satu dari: {types}",
+    "Export not found": "Ekspor tidak ditemukan",
+    "Export not ready": "Ekspor belum siap",
+    "Export has expired": "Ekspor sudah kedaluwarsa",
+    "Export file not found": "Berkas ekspor tidak ditemukan",
+    "Search query must be at least 2 characters": "Kata kunci pencarian minimal 2 karakter",
+
+    // --- Friends ---
+    "You cannot add yourself as a friend": "Kamu tidak dapat menambahkan dirimu sendiri sebagai teman",
+    "You are already friends with this user": "Kamu sudah berteman dengan pengguna ini",
+    "Friend request already sent": "Permintaan pertemanan sudah dikirim",
+    "Friendship already exists or request pending":
+        "Sudah berteman atau permintaan masih menunggu",
+    "Friendship not found": "Pertemanan tidak ditemukan",
+    "Friendship not found or not accepted": "Pertemanan tidak ditemukan atau belum diterima",
+    "Invalid friendship ID format": "Format ID pertemanan tidak valid",
+    "Invalid or unauthorized request ID": "ID permintaan tidak valid atau bukan milikmu",
+    "Pending friend request not found": "Permintaan pertemanan tidak ditemukan",
+    "Request already actioned or invalid": "Permintaan sudah diproses atau tidak valid",
+    "Unauthorized to remove this friend": "Kamu tidak berhak menghapus teman ini",
+
+    // --- Smoking Sessions ---
+    "You already have an active nongki session": "Kamu masih punya sesi nongki yang aktif",
+    "Active session not found": "Sesi aktif tidak ditemukan",
+    "Session not found": "Sesi tidak ditemukan",
+    "Invalid session ID": "ID sesi tidak valid",
+    "Invalid session ID: {id}": "ID sesi tidak valid: {id}",
+    "This session has already ended": "Sesi ini sudah berakhir",
+    "Cannot respond to your own session": "Kamu tidak dapat menanggapi sesimu sendiri",
+    "You are not friends with the session creator": "Kamu tidak berteman dengan pembuat sesi",
+    "You are not the owner of this session": "Kamu bukan pemilik sesi ini",
+    "You do not own this session": "Kamu bukan pemilik sesi ini",
+
+    // --- Admin ---
+    "User is already suspended": "Pengguna sudah ditangguhkan",
+    "User is not suspended": "Pengguna tidak sedang ditangguhkan",
+    "You cannot suspend yourself": "Kamu tidak dapat menangguhkan dirimu sendiri",
+
+    // --- Server Errors ---
+    "Internal server error": "Terjadi kesalahan pada server",
+    "Server configuration error": "Kesalahan konfigurasi server",
+    "Failed to accept friend request": "Gagal menerima permintaan pertemanan",
+    "Failed to count unread notifications": "Gagal menghitung notifikasi yang belum dibaca",
+    "Failed to create token": "Gagal membuat token",
+    "Failed to delete account": "Gagal menghapus akun",
+    "Failed to delete device": "Gagal menghapus perangkat",
+    "Failed to download export": "Gagal mengunduh ekspor",
+    "Failed to end nongki session": "Gagal mengakhiri sesi nongki",
+    "Failed to end session": "Gagal mengakhiri sesi",
+    "Failed to export data": "Gagal mengekspor data",
+    "Failed to fetch notification preferences": "Gagal memuat pengaturan notifikasi",
+    "Failed to fetch notifications": "Gagal memuat notifikasi",
+    "Failed to get active sessions": "Gagal memuat sesi aktif",
+    "Failed to get audit log": "Gagal memuat log audit",
+    "Failed to get devices": "Gagal memuat perangkat",
+    "Failed to get export": "Gagal memuat ekspor",
+    "Failed to get friend requests": "Gagal memuat permintaan pertemanan",
+    "Failed to get friends": "Gagal memuat daftar teman",
+    "Failed to get identities": "Gagal memuat identitas",
+    "Failed to get profile": "Gagal memuat profil",
+    "Failed to get session history": "Gagal memuat riwayat sesi",
+    "Failed to get session responses": "Gagal memuat tanggapan sesi",
+    "Failed to get sessions": "Gagal memuat sesi login",
+    "Failed to get stats": "Gagal memuat statistik",
+    "Failed to get tokens": "Gagal memuat token",
+    "Failed to get user": "Gagal memuat pengguna",
+    "Failed to link identity": "Gagal menghubungkan identitas",
+    "Failed to list friendships": "Gagal memuat daftar pertemanan",
+    "Failed to list users": "Gagal memuat daftar pengguna",
+    "Failed to log out": "Gagal keluar",
+    "Failed to mark notifications as read": "Gagal menandai notifikasi sebagai dibaca",
+    "Failed to process Apple notification": "Gagal memproses notifikasi Apple",
+    "Failed to process friend request": "Gagal memproses permintaan pertemanan",
+    "Failed to refresh token": "Gagal memperbarui token",
+    "Failed to register device": "Gagal mendaftarkan perangkat",
+    "Failed to register Live Activity": "Gagal mendaftarkan Live Activity",
+    "Failed to reject friend request": "Gagal menolak permintaan pertemanan",
+    "Failed to remove avatar": "Gagal menghapus foto profil",
+    "Failed to remove friend": "Gagal menghapus teman",
+    "Failed to remove Live Activity": "Gagal menghapus Live Activity",
+    "Failed to respond to session": "Gagal menanggapi sesi",
+    "Failed to revoke session": "Gagal mencabut sesi login",
+    "Failed to revoke token": "Gagal mencabut token",
+    "Failed to search users": "Gagal mencari pengguna",
+    "Failed to start nongki session": "Gagal memulai sesi nongki",
+    "Failed to suspend user": "Gagal menangguhkan pengguna",
+    "Failed to unlink identity": "Gagal memutuskan identitas",
+    "Failed to unsuspend user": "Gagal memulihkan pengguna",
+    "Failed to update notification preferences": "Gagal memperbarui pengaturan notifikasi",
+    "Failed to update profile": "Gagal memperbarui profil",
+    "Failed to update status": "Gagal memperbarui status",
+    "Failed to upload avatar": "Gagal mengunggah foto profil",
+};
+
+export default id;
@@ -0,0 +1,227 @@
+// src/lib/notifications.ts
+import { and, eq, inArray, isNull, lte, or, sql } from "drizzle-orm";
+import type { DB } from "../db";
+import { deviceTokens, notificationPreferences, users } from "../db/schema";
+import type { PushDeliveryResult, PushRecipient } from "./apns";
+import {
+    receivesPushNotifications,
+    receivesSessionNotifications,
+} from "./availability";
+import { DEFAULT_LOCALE, type Locale, parseLocale } from "./i18n";
+import { QUIET_HOURS_COLUMNS } from "./quietHours";
+
+// --- Notification Types & Preferences ---
+
+// Every notification type a user can switch off. Append new types here;
+// users without a stored preference receive them.
+export const NOTIFICATION_TYPES = [
+    "new_session",
+    "session_ended",
+    "session_response",
+    "friend_request",
+    "friend_accept",
+] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
+// Types suppressed by any availability status other than 'available'
+const SESSION_NOTIFICATION_TYPES: NotificationType[] = ["new_session", "session_ended"];
+
+/**
+ * Returns the user's preference for every notification type, defaulting to enabled.
+ */
+export const getNotificationPreferences = async (
+    db: DB,
+    userId: number,
+): Promise<Record<NotificationType, boolean>> => {
+    const rows = await db.query.notificationPreferences.findMany({
+        where: eq(notificationPreferences.userId, userId),
+        columns: { type: true, enabled: true },
+    });
+    const stored = new Map(rows.map((r) => [r.type, r.enabled]));
+    return Object.fromEntries(
+        NOTIFICATION_TYPES.map((type) => [type, stored.get(type) ?? true]),
+    ) as Record<NotificationType, boolean>;
+};
+
+/**
+ * Stores preferences for the given notification types; others are left unchanged.
+ */
+export const updateNotificationPreferences = async (
+    db: DB,
+    userId: number,
+    preferences: Partial<Record<NotificationType, boolean>>,
+): Promise<void> => {
+    const values = Object.entries(preferences)
+        .filter(([, enabled]) => enabled !== undefined)
+        .map(([type, enabled]) => ({ userId, type, enabled: enabled! }));
+    if (values.length === 0) {
+        return;
+    }
+    await db
+        .insert(notificationPreferences)
+        .values(values)
+        .onConflictDoUpdate({
+            target: [notificationPreferences.userId, notificationPreferences.type],
+            set: {
+                enabled: sql`excluded.enabled`,
+                updatedAt: new Date(),
+            },
+        });
+};
+
+// --- Recipient Resolution ---
+
+// A user to notify, whether or not they have a device to push to
+export interface NotifiedUser {
+    userId: number;
+    locale: Locale; // Language of their inbox entry
+}
+
+export interface ResolvedRecipients {
+    users: NotifiedUser[]; // Everyone to notify; each gets an inbox entry
+    recipients: PushRecipient[]; // Their device tokens, with quiet-hours settings
+    unavailableUserIds: number[]; // Skipped because of their availability status
+    optedOutUserIds: number[]; // Skipped because they turned this type off
+}
+
+/**
+ * Resolves which devices should receive a notification of `type`.
+ * Skips accounts pending deletion or suspended, users whose availability
+ * status blocks the type and users who turned the type off. Quiet hours are
+ * applied later by enqueuePushNotifications.
+ * @param db The Drizzle client.
+ * @param userIds Candidate recipients.
+ * @param type The notification type being sent.
+ */
+export const resolvePushRecipients = async (
+    db: DB,
+    userIds: number[],
+    type: NotificationType,
+): Promise<ResolvedRecipients> => {
+    const resolved: ResolvedRecipients = {
+        users: [],
+        recipients: [],
+        unavailableUserIds: [],
+        optedOutUserIds: [],
+    };
+    if (userIds.length === 0) {
+        return resolved;
+    }
+
+    const [candidates, optOuts] = await Promise.all([
+        db.query.users.findMany({
+            where: and(
+                inArray(users.id, userIds),
+                isNull(users.deletionScheduledAt),
+                isNull(users.suspendedAt),
+            ),
+            columns: {
+                id: true,
+                availability: true,
+                availabilityExpiresAt: true,
+                locale: true,
+                ...QUIET_HOURS_COLUMNS,
+            },
+        }),
+        db.query.notificationPreferences.findMany({
+            where: and(
+                inArray(notificationPreferences.userId, userIds),
+                eq(notificationPreferences.type, type),
+                eq(notificationPreferences.enabled, false),
+            ),
+            columns: { userId: true },
+        }),
+    ]);
+
+    const optedOut = new Set(optOuts.map((p) => p.userId));
+    const isAvailable = SESSION_NOTIFICATION_TYPES.includes(type)
+        ? receivesSessionNotifications
+        : receivesPushNotifications;
+
+    const reachable = new Map<number, (typeof candidates)[number]>();
+    for (const user of candidates) {
+        if (!isAvailable(user)) {
+            resolved.unavailableUserIds.push(user.id);
+        } else if (optedOut.has(user.id)) {
+            resolved.optedOutUserIds.push(user.id);
+        } else {
+            reachable.set(user.id, user);
+        }
+    }
+    if (reachable.size === 0) {
+        return resolved;
+    }
+
+    // Devices of both platforms; the sender routes them to APNS or FCM
+    const tokens = await db.query.deviceTokens.findMany({
+        where: inArray(deviceTokens.userId, [...reachable.keys()]),
+        columns: {
+            token: true,
+            userId: true,
+            platform: true,
+            apnsEnvironment: true,
+            locale: true,
+        },
+    });
+    resolved.recipients = tokens.map((t) => {
+        const user = reachable.get(t.userId)!;
+        return {
+            userId: t.userId,
+            token: t.token,
+            platform: t.platform,
+            environment: t.apnsEnvironment,
+            quietHours: user,
+            // The user's chosen language, else the device's
+            locale: user.locale ?? parseLocale(t.locale) ?? DEFAULT_LOCALE,
+        };
+    });
+    // Users without devices still get an inbox entry, in their own language
+    // or else their first device's
+    resolved.users = [...reachable.values()].map((user) => ({
+        userId: user.id,
+        locale:
+            resolved.recipients.find((r) => r.userId === user.id)?.locale ??
+            user.locale ??
+            DEFAULT_LOCALE,
+    }));
+    return resolved;
+};
+
+// --- Invalid Token Cleanup ---
+
+/**
+ * Deletes device tokens APNS rejected as invalid.
+ * A token is kept if it was registered again after it became invalid
+ * (the 410 timestamp, or the send attempt when APNS gives none), since
+ * the app may have been reinstalled in between.
+ * @param db The Drizzle client.
+ * @param results Failed deliveries with `invalidToken` set.
+ * @param attemptedAt When the notifications were sent.
+ * @returns The number of tokens deleted.
+ */
+export const pruneInvalidDeviceTokens = async (
+    db: DB,
+    results: PushDeliveryResult[],
+    attemptedAt: Date,
+): Promise<number> => {
+    const invalid = results.filter((r) => r.invalidToken);
+    if (invalid.length === 0) {
+        return 0;
+    }
+
+    const deleted = await db
+        .delete(deviceTokens)
+        .where(
+            or(
+                ...invalid.map((r) =>
+                    and(
+                        eq(deviceTokens.token, r.token),
+                        lte(deviceTokens.lastUpdated, r.unregisteredAt ?? attemptedAt),
+                    ),
+                ),
+            ),
+        )
+        .returning({ id: deviceTokens.id });
+    return deleted.length;
+};
@@ -0,0 +1,319 @@
+// src/lib/outbox.ts
+import { and, eq, inArray, lte, or, sql } from "drizzle-orm";
+import type { DB } from "../db";
+import { notificationOutbox } from "../db/schema";
+import type { AppEnv } from "../types";
+import {
+    type ApnsPayload,
+    type PushDeliveryResult,
+    sendPushNotificationsToTargets,
+} from "./apns";
+import { getUnreadCounts, recordInboxNotifications } from "./inbox";
+import type { Locale } from "./i18n";
+import type { NotificationType, ResolvedRecipients } from "./notifications";
+import { downgradeForQuietHours, isInQuietHours } from "./quietHours";
+
+// --- Notification Outbox ---
+
+const MAX_ATTEMPTS = 6; // Dead-letter after this many failed sends
+const RETRY_BASE_MS = 30 * 1000; // Backoff: 30s, 1m, 2m, 4m, 8m
+const RETRY_MAX_MS = 60 * 60 * 1000;
+const THROTTLED_MIN_DELAY_MS = 60 * 1000; // TooManyRequests without a Retry-After header
+const SENDING_STALE_MS = 5 * 60 * 1000; // 'sending' for longer means the Worker died mid-send
+const DISPATCH_BATCH_SIZE = 100; // Rows per run; each row is one subrequest
+// D1 allows 100 bound parameters per statement
+const ENQUEUE_CHUNK_SIZE = 10; // Rows per INSERT
+const DISPATCH_ID_CHUNK_SIZE = 50; // IDs per dispatch of just-queued rows
+const DISPATCH_CONCURRENCY = 6; // Payload groups sent at once (Workers allow 6 open connections)
+const DELIVERED_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+const FAILED_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Sets the app icon badge to the recipient's unread inbox count
+const withBadge = (payload: ApnsPayload, badge: number): ApnsPayload => ({
+    ...payload,
+    aps: { ...payload.aps, badge },
+});
+
+/**
+ * Stores the notification in each user's inbox, then queues it for each of
+ * their devices, rendered in the recipient's language and badged with
+ * their unread count. Users without devices only get the inbox entry.
+ * Quiet hours apply to the push only: recipients inside their window get a
+ * passive payload without sound, or no row at all if they skip notifications
+ * during quiet hours.
+ * @param db The Drizzle client.
+ * @param resolved Users to notify and their devices (see resolvePushRecipients).
+ * @param type The notification type, recorded on each row.
+ * @param buildPayload Renders the notification payload, without a badge, in a locale.
+ * @returns IDs of the queued rows, to dispatch right after responding.
+ */
+export const enqueuePushNotifications = async (
+    db: DB,
+    { users, recipients }: Pick<ResolvedRecipients, "users" | "recipients">,
+    type: NotificationType,
+    buildPayload: (locale: Locale) => ApnsPayload,
+): Promise<{
+    ids: number[];
+    queuedCount: number;
+    silencedCount: number;
+    skippedCount: number;
+}> => {
+    const now = new Date();
+    const payloads = new Map<Locale, ApnsPayload>();
+    const render = (locale: Locale): ApnsPayload => {
+        if (!payloads.has(locale)) {
+            payloads.set(locale, buildPayload(locale));
+        }
+        return payloads.get(locale)!;
+    };
+
+    // One inbox entry per user, before any push so the badges include it
+    const inboxPayloads = new Map(
+        users.map((user) => [user.userId, render(user.locale)] as const),
+    );
+    await recordInboxNotifications(db, inboxPayloads, type);
+    const unreadCounts = await getUnreadCounts(db, [...inboxPayloads.keys()]);
+
+    const rows: (typeof notificationOutbox.$inferInsert)[] = [];
+    let silencedCount = 0;
+    let skippedCount = 0;
+
+    for (const recipient of recipients) {
+        let rowPayload = render(recipient.locale);
+        if (isInQuietHours(recipient.quietHours, now)) {
+            if (recipient.quietHours.quietHoursMode === "skip") {
+                skippedCount++;
+                continue;
+            }
+            silencedCount++;
+            rowPayload = downgradeForQuietHours(rowPayload);
+        }
+        rowPayload = withBadge(rowPayload, unreadCounts.get(recipient.userId) ?? 0);
+        rows.push({
+            userId: recipient.userId,
+            token: recipient.token,
+            platform: recipient.platform,
+            apnsEnvironment: recipient.environment ?? null,
+            type,
+            payload: rowPayload,
+        });
+    }
+    if (silencedCount > 0 || skippedCount > 0) {
+        console.log(
+            `Quiet hours: ${silencedCount} tokens silenced, ${skippedCount} skipped for '${type}'.`,
+        );
+    }
+
+    const ids: number[] = [];
+    for (let i = 0; i < rows.length; i += ENQUEUE_CHUNK_SIZE) {
+        const inserted = await db
+            .insert(notificationOutbox)
+            .values(rows.slice(i, i + ENQUEUE_CHUNK_SIZE))
+            .returning({ id: notificationOutbox.id });
+        ids.push(...inserted.map((r) => r.id));
+    }
+
+    return { ids, queuedCount: ids.length, silencedCount, skippedCount };
+};
+
+// Delay before the next attempt, growing exponentially; throttling waits at least a minute
+const getRetryDelayMs = (attempts: number, result: PushDeliveryResult): number => {
+    const backoff = Math.min(RETRY_BASE_MS * 2 ** (attempts - 1), RETRY_MAX_MS);
+    const throttled = result.status === 429 ? THROTTLED_MIN_DELAY_MS : 0;
+    const retryAfter = (result.retryAfterSeconds ?? 0) * 1000;
+    return Math.max(backoff, throttled, retryAfter);
+};
+
+const describeFailure = (result: PushDeliveryResult | undefined): string =>
+    result?.reason ?? (result?.status ? `HTTP ${result.status}` : "NetworkError");
+
+/**
+ * Sends due outbox rows and records the outcome of each.
+ * Rows are claimed by switching them to 'sending', so a row picked up by two
+ * dispatchers at once is only sent by one of them.
+ * @param env The Cloudflare Worker environment bindings.
+ * @param db The Drizzle client.
+ * @param ids Only send these rows (just queued); otherwise any due rows.
+ * @returns How many rows were delivered, rescheduled and dead-lettered.
+ */
+export const dispatchOutbox = async (
+    env: AppEnv["Bindings"],
+    db: DB,
+    ids?: number[],
+): Promise<{ delivered: number; retried: number; failed: number }> => {
+    const totals = { delivered: 0, retried: 0, failed: 0 };
+    if (ids && ids.length === 0) {
+        return totals;
+    }
+
+    if (ids && ids.length > DISPATCH_ID_CHUNK_SIZE) {
+        for (let i = 0; i < ids.length; i += DISPATCH_ID_CHUNK_SIZE) {
+            const result = await dispatchOutbox(
+                env,
+                db,
+                ids.slice(i, i + DISPATCH_ID_CHUNK_SIZE),
+            );
+            totals.delivered += result.delivered;
+            totals.retried += result.retried;
+            totals.failed += result.failed;
+        }
+        return totals;
+    }
+
+    const now = new Date();
+    const due = db
+        .select({ id: notificationOutbox.id })
+        .from(notificationOutbox)
+        .where(
+            and(
+                eq(notificationOutbox.status, "pending"),
+                lte(notificationOutbox.nextAttemptAt, now),
+                ids ? inArray(notificationOutbox.id, ids) : undefined,
+            ),
+        )
+        .orderBy(notificationOutbox.nextAttemptAt)
+        .limit(DISPATCH_BATCH_SIZE);
+    const claimed = await db
+        .update(notificationOutbox)
+        .set({ status: "sending", updatedAt: now })
+        .where(
+            and(
+                inArray(notificationOutbox.id, due),
+                eq(notificationOutbox.status, "pending"),
+            ),
+        )
+        .returning();
+    if (claimed.length === 0) {
+        return totals;
+    }
+
+    // Rows queued together share a payload (apart from badges); send each payload as one batch
+    const groups = new Map<string, typeof claimed>();
+    for (const row of claimed) {
+        const key = JSON.stringify(row.payload);
+        groups.set(key, [...(groups.get(key) ?? []), row]);
+    }
+
+    const deliveredIds: number[] = [];
+    const updates: Promise<unknown>[] = [];
+    const sendGroup = async (rows: typeof claimed) => {
+        const { results } = await sendPushNotificationsToTargets(
+            env,
+            rows.map((row) => ({
+                token: row.token,
+                platform: row.platform,
+                environment: row.apnsEnvironment,
+            })),
+            rows[0].payload,
+        );
+        const resultsByToken = new Map(results.map((r) => [r.token, r]));
+
+        for (const row of rows) {
+            const result = resultsByToken.get(row.token);
+            if (result?.success) {
+                deliveredIds.push(row.id);
+                continue;
+            }
+
+            const attempts = row.attempts + 1;
+            const giveUp =
+                !result ||
+                result.invalidToken ||
+                !result.retryable ||
+                attempts >= MAX_ATTEMPTS;
+            updates.push(
+                db
+                    .update(notificationOutbox)
+                    .set({
+                        status: giveUp ? "failed" : "pending",
+                        attempts,
+                        lastError: describeFailure(result),
+                        nextAttemptAt: giveUp
+                            ? now
+                            : new Date(now.getTime() + getRetryDelayMs(attempts, result)),
+                        updatedAt: new Date(),
+                    })
+                    .where(eq(notificationOutbox.id, row.id)),
+            );
+            if (giveUp) {
+                totals.failed++;
+            } else {
+                totals.retried++;
+            }
+        }
+    };
+
+    // Per-user badges make most groups a single row; send several at a time
+    const pending = [...groups.values()];
+    await Promise.all(
+        Array.from({ length: Math.min(DISPATCH_CONCURRENCY, pending.length) }, async () => {
+            for (let rows = pending.shift(); rows; rows = pending.shift()) {
+                await sendGroup(rows);
+            }
+        }),
+    );
+
+    if (deliveredIds.length > 0) {
+        updates.push(
+            db
+                .update(notificationOutbox)
+                .set({
+                    status: "delivered",
+                    attempts: sql`${notificationOutbox.attempts} + 1`,
+                    lastError: null,
+                    deliveredAt: new Date(),
+                    updatedAt: new Date(),
+                })
+                .where(inArray(notificationOutbox.id, deliveredIds)),
+        );
+        totals.delivered = deliveredIds.length;
+    }
+    await Promise.all(updates);
+
+    console.log(
+        `Outbox: ${totals.delivered} delivered, ${totals.retried} scheduled for retry, ${totals.failed} dead-lettered.`,
+    );
+    return totals;
+};
+
+/**
+ * Scheduled outbox upkeep: requeues rows stuck in 'sending', sends due retries
+ * and removes old delivered and dead-lettered rows.
+ */
+export const runNotificationOutboxMaintenance = async (
+    env: AppEnv["Bindings"],
+    db: DB,
+): Promise<void> => {
+    const now = Date.now();
+
+    const requeued = await db
+        .update(notificationOutbox)
+        .set({ status: "pending", updatedAt: new Date(now) })
+        .where(
+            and(
+                eq(notificationOutbox.status, "sending"),
+                lte(notificationOutbox.updatedAt, new Date(now - SENDING_STALE_MS)),
+            ),
+        )
+        .returning({ id: notificationOutbox.id });
+    if (requeued.length > 0) {
+        console.log(`Requeued ${requeued.length} outbox rows stuck in 'sending'`);
+    }
+
+    await dispatchOutbox(env, db);
+
+    await db
+        .delete(notificationOutbox)
+        .where(
+            or(
+                and(
+                    eq(notificationOutbox.status, "delivered"),
+                    lte(notificationOutbox.updatedAt, new Date(now - DELIVERED_TTL_MS)),
+                ),
+                and(
+                    eq(notificationOutbox.status, "failed"),
+                    lte(notificationOutbox.updatedAt, new Date(now - FAILED_TTL_MS)),
+                ),
+            ),
+        );
+};
@@ -0,0 +1,100 @@
+// src/lib/quietHours.ts
+import type { ApnsPayload } from "./apns";
+
+// --- Quiet Hours ---
+
+/**
+ * A user's quiet-hours window, in wall-clock time of their timezone.
+ * Windows may cross midnight (e.g. 22:00-07:00).
+ */
+export interface QuietHoursSettings {
+    timezone: string | null; // IANA name, e.g. "Asia/Jakarta"; UTC when unset
+    quietHoursStart: string | null; // "HH:MM"
+    quietHoursEnd: string | null; // "HH:MM"
+    quietHoursMode: "silent" | "skip"; // Deliver without sound, or not at all
+}
+
+// Columns to select from `users` to evaluate quiet hours
+export const QUIET_HOURS_COLUMNS = {
+    timezone: true,
+    quietHoursStart: true,
+    quietHoursEnd: true,
+    quietHoursMode: true,
+} as const;
+
+export const QUIET_HOURS_TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/**
+ * Checks that a timezone name is known to the runtime.
+ */
+export const isValidTimezone = (timezone: string): boolean => {
+    try {
+        new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+        return true;
+    } catch {
+        return false;
+    }
+};
+
+const toMinutes = (time: string): number => {
+    const [hours, minutes] = time.split(":").map(Number);
+    return hours * 60 + minutes;
+};
+
+/**
+ * Minutes since local midnight in a timezone.
+ * Intl applies the zone's DST rules for the given instant.
+ */
+const localMinutesOfDay = (timezone: string, date: Date): number => {
+    const parts = new Intl.DateTimeFormat("en-US", {
+        timeZone: timezone,
+        hour: "2-digit",
+        minute: "2-digit",
+        hourCycle: "h23",
+    }).formatToParts(date);
+    const hour = Number(parts.find((p) => p.type === "hour")?.value ?? 0);
+    const minute = Number(parts.find((p) => p.type === "minute")?.value ?? 0);
+    return hour * 60 + minute;
+};
+
+/**
+ * Whether `now` falls inside the user's quiet hours.
+ * The start is inclusive and the end exclusive; equal start and end means no quiet hours.
+ */
+export const isInQuietHours = (
+    settings: QuietHoursSettings,
+    now: Date = new Date(),
+): boolean => {
+    if (!settings.quietHoursStart || !settings.quietHoursEnd) {
+        return false;
+    }
+    const start = toMinutes(settings.quietHoursStart);
+    const end = toMinutes(settings.quietHoursEnd);
+    if (start === end) {
+        return false;
+    }
+
+    let current: number;
+    try {
+        current = localMinutesOfDay(settings.timezone || "UTC", now);
+    } catch {
+        // Unknown timezone stored before validation existed
+        current = localMinutesOfDay("UTC", now);
+    }
+
+    return start < end
+        ? current >= start && current < end
+        : current >= start || current < end; // Window crosses midnight
+};
+
+/**
+ * Turns an alert into a passive one: it lands in Notification Center
+ * without sound, vibration or lighting up the screen.
+ */
+export const downgradeForQuietHours = (payload: ApnsPayload): ApnsPayload => {
+    const { sound, ...aps } = payload.aps;
+    return {
+        ...payload,
+        aps: { ...aps, "interruption-level": "passive" },
+    };
+};
@@ -0,0 +1,228 @@
+// src/lib/rateLimit.ts
+import { and, eq, lte, sql } from "drizzle-orm";
+import type { MiddlewareHandler } from "hono";
+import type { DB } from "../db";
+import { rateLimitCounters } from "../db/schema";
+import type { AppContext, AppEnv } from "../types";
+
+// --- Storage ---
+
+/**
+ * Backing store for fixed-window hit counters.
+ * The limiter combines the current and previous window into a sliding window.
+ */
+export interface RateLimitStore {
+    /** Increments the counter for a window and returns the new count. */
+    increment(key: string, windowStart: number, windowSeconds: number): Promise<number>;
+    /** Returns the counter for a window, 0 if it has no hits. */
+    get(key: string, windowStart: number): Promise<number>;
+}
+
+/**
+ * Per-isolate in-memory store. Only suitable for local development and tests,
+ * since every Worker isolate keeps its own counters.
+ */
+export const createMemoryRateLimitStore = (): RateLimitStore => {
+    const counters = new Map<string, { count: number; expiresAt: number }>();
+
+    const evictExpired = () => {
+        const now = Date.now();
+        for (const [id, entry] of counters) {
+            if (entry.expiresAt <= now) {
+                counters.delete(id);
+            }
+        }
+    };
+
+    return {
+        async increment(key, windowStart, windowSeconds) {
+            evictExpired();
+            const id = `${key}@${windowStart}`;
+            const entry = counters.get(id) ?? {
+                count: 0,
+                // Keep it around for the following window's sliding estimate
+                expiresAt: (windowStart + windowSeconds * 2) * 1000,
+            };
+            entry.count++;
+            counters.set(id, entry);
+            return entry.count;
+        },
+        async get(key, windowStart) {
+            return counters.get(`${key}@${windowStart}`)?.count ?? 0;
+        },
+    };
+};
+
+/**
+ * D1-backed store shared by all isolates.
+ */
+export const createD1RateLimitStore = (db: DB): RateLimitStore => ({
+    async increment(key, windowStart, windowSeconds) {
+        const [row] = await db
+            .insert(rateLimitCounters)
+            .values({
+                key,
+                windowStart,
+                count: 1,
+                // Keep it around for the following window's sliding estimate
+                expiresAt: new Date((windowStart + windowSeconds * 2) * 1000),
+            })
+            .onConflictDoUpdate({
+                target: [rateLimitCounters.key, rateLimitCounters.windowStart],
+                set: { count: sql`${rateLimitCounters.count} + 1` },
+            })
+            .returning({ count: rateLimitCounters.count });
+        return row?.count ?? 1;
+    },
+    async get(key, windowStart) {
+        const row = await db.query.rateLimitCounters.findFirst({
+            where: and(
+                eq(rateLimitCounters.key, key),
+                eq(rateLimitCounters.windowStart, windowStart),
+            ),
+            columns: { count: true },
+        });
+        return row?.count ?? 0;
+    },
+});
+
+/**
+ * Deletes counters that no longer affect any window. Run from the scheduled handler.
+ * @returns The number of rows removed.
+ */
+export const purgeExpiredRateLimitCounters = async (db: DB): Promise<number> => {
+    const deleted = await db
+        .delete(rateLimitCounters)
+        .where(lte(rateLimitCounters.expiresAt, new Date()))
+        .returning({ key: rateLimitCounters.key });
+    return deleted.length;
+};
+
+// Shared across requests handled by the same isolate
+const memoryStore = createMemoryRateLimitStore();
+
+/**
+ * Picks the store configured by the RATE_LIMIT_STORE binding ('d1' by default).
+ */
+const getRateLimitStore = (c: AppContext): RateLimitStore =>
+    c.env.RATE_LIMIT_STORE === "memory"
+        ? memoryStore
+        : createD1RateLimitStore(c.get("db"));
+
+// --- Limits ---
+
+export interface RateLimitRule {
+    limit: number; // Max hits per window
+    windowSeconds: number;
+    keyBy: "user" | "ip"; // 'user' requires jwtMiddleware to run first
+}
+
+// Defaults per route group, overridable through the RATE_LIMITS binding (JSON)
+export const RATE_LIMIT_GROUPS = {
+    auth: { limit: 10, windowSeconds: 60, keyBy: "ip" },
+    // Every signed-in client refreshes about every 15 minutes, and many may share a NAT IP
+    refresh: { limit: 120, windowSeconds: 60, keyBy: "ip" },
+    search: { limit: 30, windowSeconds: 60, keyBy: "user" },
+    friendRequest: { limit: 20, windowSeconds: 60 * 60, keyBy: "user" },
+    sessionStart: { limit: 5, windowSeconds: 15 * 60, keyBy: "user" },
+} satisfies Record<string, RateLimitRule>;
+
+export type RateLimitGroup = keyof typeof RATE_LIMIT_GROUPS;
+
+const resolveRule = (c: AppContext, group: RateLimitGroup): RateLimitRule => {
+    const defaults: RateLimitRule = RATE_LIMIT_GROUPS[group];
+    if (!c.env.RATE_LIMITS) {
+        return defaults;
+    }
+    try {
+        const overrides = JSON.parse(c.env.RATE_LIMITS)[group];
+        return { ...defaults, ...overrides };
+    } catch (error: any) {
+        console.error("Invalid RATE_LIMITS configuration:", error.message);
+        return defaults;
+    }
+};
+
+/**
+ * Seconds until the sliding estimate admits another hit (which will count
+ * towards the current window).
+ * @param current Hits in the current window, including the rejected one.
+ * @param previous Hits in the previous window.
+ */
+const secondsUntilAllowed = (
+    rule: RateLimitRule,
+    now: number,
+    resetAt: number,
+    current: number,
+    previous: number,
+): number => {
+    const remaining = rule.limit - current;
+    if (remaining > 0) {
+        // Wait for the previous window's weighted hits to drop below the remaining room
+        return resetAt - now - (rule.windowSeconds * remaining) / previous;
+    }
+    // The current window is full on its own; once it becomes the previous
+    // window, wait for its weighted hits to drop below the limit
+    return resetAt - now + rule.windowSeconds * (1 - rule.limit / current);
+};
+
+const getClientIp = (c: AppContext): string =>
+    c.req.header("CF-Connecting-IP") ??
+    c.req.header("X-Forwarded-For")?.split(",")[0].trim() ??
+    "unknown";
+
+/**
+ * Sliding-window rate limit middleware for a route group.
+ * Sets X-RateLimit-* headers and answers 429 with Retry-After once the limit is hit.
+ * Fails open if the store is unavailable.
+ */
+export const rateLimit = (group: RateLimitGroup): MiddlewareHandler<AppEnv> => {
+    return async (c, next) => {
+        const rule = resolveRule(c, group);
+        const userId = c.get("jwtPayload")?.id;
+        const subject =
+            rule.keyBy === "user" && userId ? `user:${userId}` : `ip:${getClientIp(c)}`;
+        const key = `${group}:${subject}`;
+
+        const now = Date.now() / 1000;
+        const windowStart = Math.floor(now / rule.windowSeconds) * rule.windowSeconds;
+        const resetAt = windowStart + rule.windowSeconds;
+
+        let current: number;
+        let previous: number;
+        let estimated: number;
+        try {
+            const store = getRateLimitStore(c);
+            [current, previous] = await Promise.all([
+                store.increment(key, windowStart, rule.windowSeconds),
+                store.get(key, windowStart - rule.windowSeconds),
+            ]);
+            // Weight the previous window by how much of it still overlaps the sliding window
+            const previousWeight = (resetAt - now) / rule.windowSeconds;
+            estimated = Math.floor(previous * previousWeight) + current;
+        } catch (error) {
+            console.error(`Rate limit store error for '${group}':`, error);
+            return next();
+        }
+
+        c.header("X-RateLimit-Limit", String(rule.limit));
+        c.header("X-RateLimit-Remaining", String(Math.max(0, rule.limit - estimated)));
+        c.header("X-RateLimit-Reset", String(Math.ceil(resetAt)));
+
+        if (estimated > rule.limit) {
+            // The estimate must drop strictly below the threshold, hence floor + 1
+            const retryAfter = Math.max(
+                1,
+                Math.floor(secondsUntilAllowed(rule, now, resetAt, current, previous)) + 1,
+            );
+            c.header("Retry-After", String(retryAfter));
+            console.log(`Rate limit '${group}' exceeded for ${subject}`);
+            return c.json(
+                { success: false, error: "Too many requests, please try again later" },
+                429,
+            );
+        }
+
+        await next();
+    };
+};
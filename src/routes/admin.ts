@@ -0,0 +1,542 @@
+// src/routes/admin.ts
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import {
+    and,
+    desc,
+    eq,
+    gte,
+    inArray,
+    isNotNull,
+    isNull,
+    or,
+    sql,
+    type SQL,
+} from "drizzle-orm";
+import type { BatchItem } from "drizzle-orm/batch";
+import { AppEnv } from "../types";
+import type { DB } from "../db";
+import {
+    users,
+    friendships,
+    smokingSessions,
+    deviceTokens,
+    adminAuditLog,
+    notificationOutbox,
+} from "../db/schema";
+import { adminOnly, jwtMiddleware, revokeAllAuthSessions } from "../lib/auth";
+import { sendLiveActivityUpdate } from "../lib/liveActivity";
+
+// Define validation schemas
+const listUsersQuerySchema = z.object({
+    q: z.string().optional(),
+    status: z.enum(["active", "suspended", "pending_deletion"]).optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(25),
+});
+
+const suspendSchema = z.object({
+    reason: z.string().min(1).max(500),
+});
+
+const auditLogQuerySchema = z.object({
+    adminId: z.coerce.number().int().optional(),
+    targetType: z.string().optional(),
+    targetId: z.string().optional(),
+    page: z.coerce.number().int().min(1).default(1),
+    limit: z.coerce.number().int().min(1).max(100).default(50),
+});
+
+// Create a router instance; every route requires an admin
+const app = new Hono<AppEnv>();
+app.use("*", jwtMiddleware);
+app.use("*", adminOnly);
+
+/**
+ * Runs an admin action together with its audit log entry in one D1 batch
+ * (a transaction), so the action never happens unaudited.
+ * @param statement The action's write, not yet executed.
+ * @param details Extra context stored as JSON (reason, previous values, ...).
+ */
+const recordAdminAction = async (
+    db: DB,
+    statement: BatchItem<"sqlite">,
+    adminId: number,
+    action: string,
+    target: { type: string; id: string | number },
+    details?: Record<string, unknown>,
+): Promise<void> => {
+    await db.batch([
+        statement,
+        db.insert(adminAuditLog).values({
+            adminId,
+            action,
+            targetType: target.type,
+            targetId: String(target.id),
+            details: details ? JSON.stringify(details) : null,
+        }),
+    ]);
+    console.log(`Admin ${adminId} ${action} ${target.type} ${target.id}`);
+};
+
+const parseId = (value: string): number | null => {
+    const id = parseInt(value, 10);
+    return isNaN(id) ? null : id;
+};
+
+// --- Users ---
+
+// List and search users
+app.get("/users", zValidator("query", listUsersQuerySchema), async (c) => {
+    const { q, status, page, limit } = c.req.valid("query");
+    const db = c.get("db");
+
+    const filters: SQL[] = [];
+    if (q) {
+        const pattern = `%${q.toLowerCase()}%`;
+        filters.push(
+            or(
+                sql`lower(${users.username}) LIKE ${pattern}`,
+                sql`lower(${users.email}) LIKE ${pattern}`,
+                sql`lower(${users.fullName}) LIKE ${pattern}`,
+            )!,
+        );
+    }
+    if (status === "suspended") {
+        filters.push(isNotNull(users.suspendedAt));
+    } else if (status === "pending_deletion") {
+        filters.push(isNotNull(users.deletionScheduledAt));
+    } else if (status === "active") {
+        filters.push(isNull(users.suspendedAt), isNull(users.deletionScheduledAt));
+    }
+    const where = filters.length > 0 ? and(...filters) : undefined;
+
+    try {
+        const [userRows, totalCount] = await Promise.all([
+            db.query.users.findMany({
+                where,
+                columns: {
+                    id: true,
+                    username: true,
+                    fullName: true,
+                    email: true,
+                    role: true,
+                    createdAt: true,
+                    suspendedAt: true,
+                    suspendedReason: true,
+                    deletionScheduledAt: true,
+                },
+                orderBy: desc(users.createdAt),
+                limit,
+                offset: (page - 1) * limit,
+            }),
+            db.$count(users, where),
+        ]);
+
+        return c.json({
+            success: true,
+            users: userRows,
+            pagination: {
+                currentPage: page,
+                totalPages: Math.ceil(totalCount / limit),
+                totalCount,
+                limit,
+            },
+        });
+    } catch (error) {
+        console.error("Admin List Users Error:", error);
+        return c.json({ success: false, error: "Failed to list users" }, 500);
+    }
+});
+
+// Inspect a single user with their devices, friendships and recent sessions
+app.get("/users/:id", async (c) => {
+    const userId = parseId(c.req.param("id"));
+    const db = c.get("db");
+
+    if (userId === null) {
+        return c.json({ success: false, error: "Invalid user ID" }, 400);
+    }
+
+    try {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { passwordHash: false, appleId: false },
+            with: {
+                identities: {
+                    columns: { provider: true, email: true, createdAt: true },
+                },
+                deviceTokens: {
+                    columns: {
+                        id: true,
+                        token: true,
+                        platform: true,
+                        apnsEnvironment: true,
+                        appVersion: true,
+                        deviceName: true,
+                        lastUpdated: true,
+                    },
+                },
+                smokingSessions: {
+                    orderBy: desc(smokingSessions.startTime),
+                    limit: 10,
+                },
+            },
+        });
+        if (!user) {
+            return c.json({ success: false, error: "User not found" }, 404);
+        }
+
+        // Raw rows on purpose, to help debug inconsistent friendships
+        const userFriendships = await db.query.friendships.findMany({
+            where: or(
+                eq(friendships.userId1, userId),
+                eq(friendships.userId2, userId),
+            ),
+        });
+
+        return c.json({
+            success: true,
+            user: { ...user, friendships: userFriendships },
+        });
+    } catch (error) {
+        console.error("Admin Get User Error:", error);
+        return c.json({ success: false, error: "Failed to get user" }, 500);
+    }
+});
+
+// Suspend a user: blocks sign-in, signs out every device and hides them from search
+app.post(
+    "/users/:id/suspend",
+    zValidator("json", suspendSchema),
+    async (c) => {
+        const adminId = c.get("jwtPayload").id;
+        const userId = parseId(c.req.param("id"));
+        const { reason } = c.req.valid("json");
+        const db = c.get("db");
+
+        if (userId === null) {
+            return c.json({ success: false, error: "Invalid user ID" }, 400);
+        }
+        if (userId === adminId) {
+            return c.json(
+                { success: false, error: "You cannot suspend yourself" },
+                400,
+            );
+        }
+
+        try {
+            const user = await db.query.users.findFirst({
+                where: eq(users.id, userId),
+                columns: { suspendedAt: true },
+            });
+            if (!user) {
+                return c.json({ success: false, error: "User not found" }, 404);
+            }
+            if (user.suspendedAt) {
+                return c.json({ success: false, error: "User is already suspended" }, 400);
+            }
+
+            await recordAdminAction(
+                db,
+                db
+                    .update(users)
+                    .set({ suspendedAt: new Date(), suspendedReason: reason })
+                    .where(and(eq(users.id, userId), isNull(users.suspendedAt))),
+                adminId,
+                "user.suspend",
+                { type: "user", id: userId },
+                { reason },
+            );
+
+            // Suspended users are already rejected on every request; this also
+            // drops their refresh tokens and push devices
+            const revokedSessions = await revokeAllAuthSessions(
+                db,
+                userId,
+                "suspended",
+            );
+            console.log(`Revoked ${revokedSessions} sessions of suspended user ${userId}`);
+
+            return c.json({ success: true, message: "User suspended" });
+        } catch (error) {
+            console.error("Admin Suspend User Error:", error);
+            return c.json({ success: false, error: "Failed to suspend user" }, 500);
+        }
+    },
+);
+
+// Lift a suspension
+app.post("/users/:id/unsuspend", async (c) => {
+    const adminId = c.get("jwtPayload").id;
+    const userId = parseId(c.req.param("id"));
+    const db = c.get("db");
+
+    if (userId === null) {
+        return c.json({ success: false, error: "Invalid user ID" }, 400);
+    }
+
+    try {
+        const user = await db.query.users.findFirst({
+            where: eq(users.id, userId),
+            columns: { suspendedAt: true, suspendedReason: true },
+        });
+        if (!user) {
+            return c.json({ success: false, error: "User not found" }, 404);
+        }
+        if (!user.suspendedAt) {
+            return c.json({ success: false, error: "User is not suspended" }, 400);
+        }
+
+        await recordAdminAction(
+            db,
+            db
+                .update(users)
+                .set({ suspendedAt: null, suspendedReason: null })
+                .where(eq(users.id, userId)),
+            adminId,
+            "user.unsuspend",
+            { type: "user", id: userId },
+            {
+                suspendedAt: user.suspendedAt,
+                suspendedReason: user.suspendedReason,
+            },
+        );
+
+        return c.json({ success: true, message: "User unsuspended" });
+    } catch (error) {
+        console.error("Admin Unsuspend User Error:", error);
+        return c.json({ success: false, error: "Failed to unsuspend user" }, 500);
+    }
+});
+
+// --- Friendships ---
+
+// Raw friendship rows, optionally filtered by user
+app.get("/friendships", async (c) => {
+    const userIdParam = c.req.query("userId");
+    const db = c.get("db");
+
+    const userId = userIdParam ? parseId(userIdParam) : null;
+    if (userIdParam && userId === null) {
+        return c.json({ success: false, error: "Invalid user ID" }, 400);
+    }
+
+    try {
+        const rows = await db.query.friendships.findMany({
+            where:
+                userId !== null
+                    ? or(
+                          eq(friendships.userId1, userId),
+                          eq(friendships.userId2, userId),
+                      )
+                    : undefined,
+            orderBy: desc(friendships.createdAt),
+            limit: 200,
+        });
+        return c.json({ success: true, friendships: rows });
+    } catch (error) {
+        console.error("Admin List Friendships Error:", error);
+        return c.json(
+            { success: false, error: "Failed to list friendships" },
+            500,
+        );
+    }
+});
+
+// --- Smoking Sessions ---
+
+// Force-end a smoking session that was never closed. No notifications are sent;
+// Live Activities following the session are still ended.
+app.post("/sessions/:id/end", async (c) => {
+    const adminId = c.get("jwtPayload").id;
+    const sessionId = parseId(c.req.param("id"));
+    const db = c.get("db");
+
+    if (sessionId === null) {
+        return c.json({ success: false, error: "Invalid session ID" }, 400);
+    }
+
+    try {
+        const session = await db.query.smokingSessions.findFirst({
+            where: eq(smokingSessions.id, sessionId),
+            columns: { userId: true, startTime: true, endTime: true },
+        });
+        if (!session) {
+            return c.json({ success: false, error: "Session not found" }, 404);
+        }
+        if (session.endTime !== null) {
+            return c.json(
+                { success: false, error: "This session has already ended" },
+                400,
+            );
+        }
+
+        const endTime = new Date();
+        await recordAdminAction(
+            db,
+            db
+                .update(smokingSessions)
+                .set({ endTime })
+                .where(eq(smokingSessions.id, sessionId)),
+            adminId,
+            "session.end",
+            { type: "smoking_session", id: sessionId },
+            { ownerId: session.userId, startTime: session.startTime },
+        );
+        c.executionCtx.waitUntil(sendLiveActivityUpdate(c.env, db, sessionId, endTime));
+
+        return c.json({ success: true, message: "Session ended", endTime });
+    } catch (error) {
+        console.error("Admin End Session Error:", error);
+        return c.json({ success: false, error: "Failed to end session" }, 500);
+    }
+});
+
+// --- Devices ---
+
+// Delete a device token, e.g. one that keeps failing to deliver
+app.delete("/devices/:id", async (c) => {
+    const adminId = c.get("jwtPayload").id;
+    const deviceId = parseId(c.req.param("id"));
+    const db = c.get("db");
+
+    if (deviceId === null) {
+        return c.json({ success: false, error: "Invalid device ID" }, 400);
+    }
+
+    try {
+        const device = await db.query.deviceTokens.findFirst({
+            where: eq(deviceTokens.id, deviceId),
+            columns: { userId: true, platform: true },
+        });
+        if (!device) {
+            return c.json({ success: false, error: "Device not found" }, 404);
+        }
+
+        await recordAdminAction(
+            db,
+            db.delete(deviceTokens).where(eq(deviceTokens.id, deviceId)),
+            adminId,
+            "device.delete",
+            { type: "device_token", id: deviceId },
+            device,
+        );
+
+        return c.json({ success: true, message: "Device token deleted" });
+    } catch (error) {
+        console.error("Admin Delete Device Error:", error);
+        return c.json({ success: false, error: "Failed to delete device" }, 500);
+    }
+});
+
+// --- Overview ---
+
+// Headline counts for the moderation dashboard
+app.get("/stats", async (c) => {
+    const db = c.get("db");
+    const dayAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+
+    try {
+        const [
+            totalUsers,
+            suspendedUsers,
+            pendingDeletionUsers,
+            newUsersLastDay,
+            acceptedFriendships,
+            pendingFriendships,
+            activeSessions,
+            sessionsLastDay,
+            deviceCount,
+            outboxPending,
+            outboxFailed,
+        ] = await Promise.all([
+            db.$count(users),
+            db.$count(users, isNotNull(users.suspendedAt)),
+            db.$count(users, isNotNull(users.deletionScheduledAt)),
+            db.$count(users, gte(users.createdAt, dayAgo)),
+            db.$count(friendships, eq(friendships.status, "accepted")),
+            db.$count(friendships, eq(friendships.status, "pending")),
+            db.$count(smokingSessions, isNull(smokingSessions.endTime)),
+            db.$count(smokingSessions, gte(smokingSessions.startTime, dayAgo)),
+            db.$count(deviceTokens),
+            db.$count(
+                notificationOutbox,
+                inArray(notificationOutbox.status, ["pending", "sending"]),
+            ),
+            db.$count(notificationOutbox, eq(notificationOutbox.status, "failed")),
+        ]);
+
+        return c.json({
+            success: true,
+            stats: {
+                users: {
+                    total: totalUsers,
+                    suspended: suspendedUsers,
+                    pendingDeletion: pendingDeletionUsers,
+                    newLast24h: newUsersLastDay,
+                },
+                friendships: {
+                    accepted: acceptedFriendships,
+                    pending: pendingFriendships,
+                },
+                smokingSessions: {
+                    active: activeSessions,
+                    startedLast24h: sessionsLastDay,
+                },
+                devices: deviceCount,
+                notificationOutbox: {
+                    pending: outboxPending,
+                    failed: outboxFailed, // Dead letters
+                },
+            },
+        });
+    } catch (error) {
+        console.error("Admin Stats Error:", error);
+        return c.json({ success: false, error: "Failed to get stats" }, 500);
+    }
+});
+
+// Browse the audit log, newest first
+app.get("/audit-log", zValidator("query", auditLogQuerySchema), async (c) => {
+    const { adminId, targetType, targetId, page, limit } = c.req.valid("query");
+    const db = c.get("db");
+
+    const filters: SQL[] = [];
+    if (adminId !== undefined) {
+        filters.push(eq(adminAuditLog.adminId, adminId));
+    }
+    if (targetType) {
+        filters.push(eq(adminAuditLog.targetType, targetType));
+    }
+    if (targetId) {
+        filters.push(eq(adminAuditLog.targetId, targetId));
+    }
+
+    try {
+        const entries = await db.query.adminAuditLog.findMany({
+            where: filters.length > 0 ? and(...filters) : undefined,
+            with: { admin: { columns: { id: true, username: true } } },
+            orderBy: desc(adminAuditLog.id),
+            limit,
+            offset: (page - 1) * limit,
+        });
+
+        return c.json({
+            success: true,
+            entries: entries.map((entry) => ({
+                ...entry,
+                details: entry.details ? JSON.parse(entry.details) : null,
+            })),
+        });
+    } catch (error) {
+        console.error("Admin Audit Log Error:", error);
+        return c.json(
+            { success: false, error: "Failed to get audit log" },
+            500,
+        );
+    }
+});
+
+export default app;
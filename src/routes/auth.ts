@@ -2,11 +2,29 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { eq } from "drizzle-orm";
+import { and, eq } from "drizzle-orm";
 import { AppContext, AppEnv } from "../types";
-import { users } from "../db/schema";
+import { users, userIdentities } from "../db/schema";
 // Import functions from the new auth library
-import { verifyAppleToken, generateAuthToken } from "../lib/auth";
+import {
+    verifyAppleServerNotification,
+    hashPassword,
+    verifyLoginPassword,
+    createAuthSession,
+    rotateRefreshToken,
+    revokeAuthSessionByRefreshToken,
+    revokeAllAuthSessions,
+    jwtMiddleware,
+} from "../lib/auth";
+import {
+    countUsableSignInMethods,
+    findOrCreateUserForIdentity,
+    getAppleSignInProviders,
+    getIdentityProvider,
+    usernameSchema,
+    verifyIdentityToken,
+} from "../lib/identity";
+import { rateLimit } from "../lib/rateLimit";
 
 // Apple Sign-In validation schema
 const appleAuthSchema = z.object({
@@ -16,12 +34,51 @@ const appleAuthSchema = z.object({
     email: z.string().email().optional().nullable(),
 });
 
+// Generic OIDC sign-in schema
+const oidcAuthSchema = z.object({
+    idToken: z.string().min(1),
+    fullName: z.string().optional().nullable(),
+});
+
+// Apple server-to-server notification body
+const appleNotificationSchema = z.object({
+    payload: z.string().min(1),
+});
+
+// Password policy: 8-128 chars with at least one letter and one digit
+const passwordSchema = z
+    .string()
+    .min(8, "Password must be at least 8 characters")
+    .max(128, "Password must be at most 128 characters")
+    .regex(/[A-Za-z]/, "Password must contain at least one letter")
+    .regex(/[0-9]/, "Password must contain at least one number");
+
+// Username/password registration schema
+const registerSchema = z.object({
+    username: usernameSchema,
+    password: passwordSchema,
+    fullName: z.string().optional().nullable(),
+    email: z.string().email().optional().nullable(),
+});
+
+// Username/password login schema
+const loginSchema = z.object({
+    username: z.string().min(1),
+    password: z.string().min(1),
+});
+
+// Refresh/logout schema
+const refreshTokenSchema = z.object({
+    refreshToken: z.string().min(1),
+});
+
 // Create a router instance
 const app = new Hono<AppEnv>();
 
 // Apple Sign In endpoint
 app.post(
     "/apple",
+    rateLimit("auth"),
     zValidator("json", appleAuthSchema),
     async (c) => {
         const { idToken, firstName, lastName, email } = c.req.valid("json");
@@ -46,130 +103,397 @@ app.post(
 
         try {
             // --- Verify the Apple ID Token ---
-            const applePayload = await verifyAppleToken(idToken, appleBundleId);
+            // The local provider is also accepted in development when LOCAL_IDP_JWKS is configured
+            const { provider, claims } = await verifyIdentityToken(
+                idToken,
+                getAppleSignInProviders(c.env),
+            );
 
-            // Extract the unique Apple User ID ('sub' claim)
-            const appleUserId = applePayload.sub;
-            if (!appleUserId) {
-                throw new Error("Apple token 'sub' claim is missing.");
+            // Note: The verified email from the token payload is generally more reliable
+            // than the one passed alongside the token.
+            // Use the email from the token if available, otherwise fallback to the request body email
+            const userEmail = claims.email ?? email ?? null;
+
+            // Apple only sends the name to the app, on first sign-in
+            const fullName =
+                firstName && lastName ? `${firstName} ${lastName}` : null;
+
+            // --- Find or Create User ---
+            const { userId, isNewUser } = await findOrCreateUserForIdentity(db, {
+                provider: provider.id,
+                subject: claims.subject, // The unique Apple User ID ('sub' claim)
+                email: userEmail,
+                fullName,
+            });
+
+            // --- Start Auth Session & Generate Application JWT ---
+            const tokens = await createAuthSession(db, userId, jwtSecret, {
+                userAgent: c.req.header("User-Agent"),
+            });
+
+            // --- Response ---
+            // This format should be consumable by the Swift app.
+            // It provides the necessary session tokens and user ID.
+            return c.json({
+                success: true,
+                token: tokens.token, // Short-lived access token
+                refreshToken: tokens.refreshToken, // Exchange at POST /auth/refresh
+                expiresIn: tokens.expiresIn,
+                userId: userId,
+                isNewUser: isNewUser, // Optionally inform the client if it's a new user
+            });
+        } catch (error: any) {
+            console.error("Apple Sign In Error:", error);
+            if (error.message.includes("Account suspended")) {
+                return c.json({ success: false, error: "Account suspended" }, 403);
+            }
+            // Handle specific verification errors (like invalid token) with 401
+            if (error.message.includes("Identity token verification failed")) {
+                return c.json(
+                    { success: false, error: "Invalid Apple token" },
+                    401,
+                );
             }
+            return c.json(
+                { success: false, error: "Authentication failed" },
+                500,
+            );
+        }
+    },
+);
 
-            // Extract email from token if available and verified
-            // Note: The email from the token payload is generally more reliable than the one
-            // passed alongside the token, especially if email_verified is true.
-            const tokenEmail =
-                applePayload.email && applePayload.email_verified
-                    ? (applePayload.email as string)
-                    : null;
+// Sign in with Google or any configured OIDC issuer
+app.post(
+    "/oidc/:provider",
+    rateLimit("auth"),
+    zValidator("json", oidcAuthSchema),
+    async (c) => {
+        const providerId = c.req.param("provider");
+        const { idToken, fullName } = c.req.valid("json");
+        const db = c.get("db");
+        const jwtSecret = c.env.JWT_SECRET;
 
-            // Use the email from the token if available, otherwise fallback to the request body email
-            const userEmail = tokenEmail ?? email;
+        if (!jwtSecret) {
+            console.error("JWT_SECRET environment variable is not set.");
+            return c.json(
+                { success: false, error: "Server configuration error" },
+                500,
+            );
+        }
 
-            // --- Find or Create User ---
-            const existingUser = await db.query.users.findFirst({
-                where: eq(users.appleId, appleUserId),
+        const provider = getIdentityProvider(c.env, providerId);
+        if (!provider) {
+            return c.json(
+                { success: false, error: `Unknown identity provider: ${providerId}` },
+                404,
+            );
+        }
+
+        try {
+            const { claims } = await verifyIdentityToken(idToken, [provider]);
+
+            const { userId, isNewUser } = await findOrCreateUserForIdentity(db, {
+                provider: provider.id,
+                subject: claims.subject,
+                email: claims.email,
+                fullName: fullName ?? claims.name,
             });
 
-            let userId: number;
-            let isNewUser = false;
+            const tokens = await createAuthSession(db, userId, jwtSecret, {
+                userAgent: c.req.header("User-Agent"),
+            });
 
-            if (existingUser) {
-                // User exists, update their info if needed (especially if email was missing before)
-                userId = existingUser.id;
-                const updates: Partial<typeof users.$inferInsert> = {};
-                const currentFullName =
-                    firstName && lastName ? `${firstName} ${lastName}` : null;
-
-                // Update name only if provided AND different or missing
-                if (
-                    currentFullName &&
-                    currentFullName !== existingUser.fullName
-                ) {
-                    updates.fullName = currentFullName;
-                }
-                // Update email only if a new valid email is available and wasn't set before
-                if (userEmail && !existingUser.email) {
-                    updates.email = userEmail;
-                }
+            return c.json({
+                success: true,
+                token: tokens.token,
+                refreshToken: tokens.refreshToken,
+                expiresIn: tokens.expiresIn,
+                userId: userId,
+                isNewUser: isNewUser,
+            });
+        } catch (error: any) {
+            console.error(`OIDC Sign In Error (${providerId}):`, error);
+            if (error.message.includes("Account suspended")) {
+                return c.json({ success: false, error: "Account suspended" }, 403);
+            }
+            if (error.message.includes("Identity token verification failed")) {
+                return c.json(
+                    { success: false, error: "Invalid identity token" },
+                    401,
+                );
+            }
+            return c.json(
+                { success: false, error: "Authentication failed" },
+                500,
+            );
+        }
+    },
+);
+
+// Sign in with Apple server-to-server notifications
+// Configured in the Apple Developer portal; Apple retries on non-2xx responses.
+app.post(
+    "/apple/notifications",
+    zValidator("json", appleNotificationSchema),
+    async (c) => {
+        const { payload } = c.req.valid("json");
+        const db = c.get("db");
+        const appleBundleId = c.env.APPLE_BUNDLE_ID;
+
+        if (!appleBundleId) {
+            console.error("APPLE_BUNDLE_ID environment variable is not set.");
+            return c.json(
+                { success: false, error: "Server configuration error" },
+                500,
+            );
+        }
+
+        try {
+            const event = await verifyAppleServerNotification(payload, appleBundleId);
+
+            const identity = await db.query.userIdentities.findFirst({
+                where: and(
+                    eq(userIdentities.provider, "apple"),
+                    eq(userIdentities.subject, event.sub),
+                ),
+                with: {
+                    user: {
+                        columns: { id: true, email: true, passwordHash: true },
+                        with: { identities: { columns: { id: true, provider: true } } },
+                    },
+                },
+            });
+            const user = identity?.user;
 
-                if (Object.keys(updates).length > 0) {
-                    await db.update(users).set(updates).where(eq(users.id, userId));
+            if (!identity || !user) {
+                // Nothing to do, but acknowledge so Apple stops retrying
+                console.log(
+                    `Apple notification '${event.type}' for unknown Apple user, ignoring.`,
+                );
+                return c.json({ success: true });
+            }
+
+            console.log(`Apple notification '${event.type}' for user ${user.id}`);
+
+            switch (event.type) {
+                case "consent-revoked": {
+                    // The user stopped using Sign in with Apple for this app
+                    const revokedCount = await revokeAllAuthSessions(
+                        db,
+                        user.id,
+                        "apple_consent_revoked",
+                    );
+                    console.log(`Revoked ${revokedCount} sessions for user ${user.id}`);
+                    break;
                 }
-            } else {
-                // --- Create New User ---
-                isNewUser = true;
-                const fullName =
-                    firstName && lastName ? `${firstName} ${lastName}` : null;
-
-                // Generate a unique username
-                // Prioritize email, then fallback to a random string
-                let usernameBase = "";
-                if (userEmail) {
-                    usernameBase = userEmail.split("@")[0];
-                } else if (fullName) {
-                    // Create a simple username from the name if email is unavailable
-                    usernameBase = fullName.replace(/\s+/g, "_").toLowerCase();
-                } else {
-                    usernameBase = `user_${Math.random()
-                        .toString(36)
-                        .substring(2, 10)}`;
+                case "account-delete": {
+                    // The Apple ID was deleted, so it can no longer sign in
+                    await db
+                        .delete(userIdentities)
+                        .where(eq(userIdentities.id, identity.id));
+                    const remainingMethods = countUsableSignInMethods(
+                        c.env,
+                        !!user.passwordHash,
+                        user.identities.filter((i) => i.id !== identity.id),
+                    );
+                    if (remainingMethods > 0) {
+                        console.log(
+                            `Unlinked Apple identity of user ${user.id} after Apple account deletion`,
+                        );
+                        break;
+                    }
+                    // Nothing left to sign in with; related rows are removed via cascade
+                    await db.delete(users).where(eq(users.id, user.id));
+                    console.log(`Deleted user ${user.id} after Apple account deletion`);
+                    break;
                 }
-
-                let username = usernameBase;
-                let attempt = 0;
-                // Ensure username uniqueness
-                while (
-                    await db.query.users.findFirst({ where: eq(users.username, username) })
-                ) {
-                    attempt++;
-                    username = `${usernameBase}_${attempt}`;
-                    if (attempt > 5) {
-                        // Fallback to more randomness if simple increment fails
-                        username = `${usernameBase}_${Math.random()
-                            .toString(36)
-                            .substring(2, 6)}`;
+                case "email-disabled": {
+                    // Relay address no longer forwards mail, forget it
+                    if (!event.email || user.email === event.email) {
+                        await db
+                            .update(users)
+                            .set({ email: null })
+                            .where(eq(users.id, user.id));
+                    }
+                    break;
+                }
+                case "email-enabled": {
+                    // Restore the relay address if the user has none on file
+                    if (event.email && !user.email) {
+                        const emailOwner = await db.query.users.findFirst({
+                            where: eq(users.email, event.email),
+                            columns: { id: true },
+                        });
+                        if (!emailOwner) {
+                            await db
+                                .update(users)
+                                .set({ email: event.email })
+                                .where(eq(users.id, user.id));
+                        }
                     }
+                    break;
                 }
+                default:
+                    console.log(`Unhandled Apple notification type '${event.type}'`);
+            }
+
+            return c.json({ success: true });
+        } catch (error: any) {
+            console.error("Apple Server Notification Error:", error);
+            if (error.message.includes("Apple token verification failed")) {
+                return c.json(
+                    { success: false, error: "Invalid Apple notification" },
+                    401,
+                );
+            }
+            return c.json(
+                { success: false, error: "Failed to process Apple notification" },
+                500,
+            );
+        }
+    },
+);
 
-                // Insert the new user
-                const result = await db
-                    .insert(users)
-                    .values({
-                        username,
-                        appleId: appleUserId, // Store the verified Apple User ID
-                        fullName,
-                        email: userEmail, // Store the verified email if available
-                    })
-                    .returning({ id: users.id });
-
-                if (!result || result.length === 0) {
-                    throw new Error("Failed to create new user account.");
+// Username/password registration endpoint
+app.post(
+    "/register",
+    rateLimit("auth"),
+    zValidator("json", registerSchema),
+    async (c) => {
+        const { username, password, fullName, email } = c.req.valid("json");
+        const db = c.get("db");
+        const jwtSecret = c.env.JWT_SECRET;
+
+        if (!jwtSecret) {
+            console.error("JWT_SECRET environment variable is not set.");
+            return c.json(
+                { success: false, error: "Server configuration error" },
+                500,
+            );
+        }
+
+        try {
+            // Check username and email availability up front for clear errors
+            const existingUser = await db.query.users.findFirst({
+                where: eq(users.username, username),
+                columns: { id: true },
+            });
+            if (existingUser) {
+                return c.json(
+                    { success: false, error: "Username already taken" },
+                    409,
+                );
+            }
+            if (email) {
+                const existingEmail = await db.query.users.findFirst({
+                    where: eq(users.email, email),
+                    columns: { id: true },
+                });
+                if (existingEmail) {
+                    return c.json(
+                        { success: false, error: "Email already registered" },
+                        409,
+                    );
                 }
-                userId = result[0].id;
             }
 
-            // --- Generate Application JWT ---
-            const appTokenPayload = { id: userId };
-            const authToken = await generateAuthToken(appTokenPayload, jwtSecret);
+            const passwordHash = await hashPassword(password);
+
+            const result = await db
+                .insert(users)
+                .values({
+                    username,
+                    passwordHash,
+                    fullName: fullName ?? null,
+                    email: email ?? null,
+                })
+                .returning({ id: users.id });
+
+            if (!result || result.length === 0) {
+                throw new Error("Failed to create new user account.");
+            }
+            const userId = result[0].id;
+
+            const tokens = await createAuthSession(db, userId, jwtSecret, {
+                userAgent: c.req.header("User-Agent"),
+            });
 
-            // --- Response ---
-            // This format should be consumable by the Swift app.
-            // It provides the necessary session token and user ID.
             return c.json({
                 success: true,
-                token: authToken, // Your application's session token
+                token: tokens.token,
+                refreshToken: tokens.refreshToken,
+                expiresIn: tokens.expiresIn,
                 userId: userId,
-                isNewUser: isNewUser, // Optionally inform the client if it's a new user
+                isNewUser: true,
             });
         } catch (error: any) {
-            console.error("Apple Sign In Error:", error);
-            // Handle specific verification errors (like invalid token) with 401
-            if (error.message.includes("Apple token verification failed")) {
+            console.error("Register Error:", error);
+            // A concurrent registration may still hit the unique constraints
+            if (error.message?.includes("UNIQUE constraint failed")) {
                 return c.json(
-                    { success: false, error: "Invalid Apple token" },
+                    { success: false, error: "Username or email already taken" },
+                    409,
+                );
+            }
+            return c.json(
+                { success: false, error: "Registration failed" },
+                500,
+            );
+        }
+    },
+);
+
+// Username/password login endpoint
+app.post(
+    "/login",
+    rateLimit("auth"),
+    zValidator("json", loginSchema),
+    async (c) => {
+        const { username, password } = c.req.valid("json");
+        const db = c.get("db");
+        const jwtSecret = c.env.JWT_SECRET;
+
+        if (!jwtSecret) {
+            console.error("JWT_SECRET environment variable is not set.");
+            return c.json(
+                { success: false, error: "Server configuration error" },
+                500,
+            );
+        }
+
+        try {
+            const user = await db.query.users.findFirst({
+                where: eq(users.username, username),
+                columns: { id: true, passwordHash: true },
+            });
+
+            // Apple-only accounts have no password hash and cannot log in this way.
+            // Use the same response (and timing) for unknown users and wrong passwords.
+            const passwordValid = await verifyLoginPassword(password, user?.passwordHash);
+            if (!user || !passwordValid) {
+                return c.json(
+                    { success: false, error: "Invalid username or password" },
                     401,
                 );
             }
+
+            const tokens = await createAuthSession(db, user.id, jwtSecret, {
+                userAgent: c.req.header("User-Agent"),
+            });
+
+            return c.json({
+                success: true,
+                token: tokens.token,
+                refreshToken: tokens.refreshToken,
+                expiresIn: tokens.expiresIn,
+                userId: user.id,
+                isNewUser: false,
+            });
+        } catch (error: any) {
+            console.error("Login Error:", error);
+            if (error.message.includes("Account suspended")) {
+                return c.json({ success: false, error: "Account suspended" }, 403);
+            }
             return c.json(
                 { success: false, error: "Authentication failed" },
                 500,
@@ -178,5 +502,84 @@ app.post(
     },
 );
 
+// Exchange a refresh token for a new access/refresh token pair
+app.post(
+    "/refresh",
+    rateLimit("refresh"),
+    zValidator("json", refreshTokenSchema),
+    async (c) => {
+        const { refreshToken } = c.req.valid("json");
+        const db = c.get("db");
+        const jwtSecret = c.env.JWT_SECRET;
+
+        if (!jwtSecret) {
+            console.error("JWT_SECRET environment variable is not set.");
+            return c.json(
+                { success: false, error: "Server configuration error" },
+                500,
+            );
+        }
+
+        try {
+            const tokens = await rotateRefreshToken(db, refreshToken, jwtSecret);
+
+            return c.json({
+                success: true,
+                token: tokens.token,
+                refreshToken: tokens.refreshToken,
+                expiresIn: tokens.expiresIn,
+                userId: tokens.userId,
+            });
+        } catch (error: any) {
+            console.error("Refresh Token Error:", error.message);
+            if (error.message.includes("Refresh token rejected")) {
+                return c.json(
+                    { success: false, error: "Invalid or expired refresh token" },
+                    401,
+                );
+            }
+            return c.json(
+                { success: false, error: "Failed to refresh token" },
+                500,
+            );
+        }
+    },
+);
+
+// Log out the session that owns the given refresh token
+// Works without a valid access token so expired clients can still sign out.
+app.post(
+    "/logout",
+    zValidator("json", refreshTokenSchema),
+    async (c) => {
+        const { refreshToken } = c.req.valid("json");
+        const db = c.get("db");
+
+        try {
+            // Idempotent: unknown or already revoked sessions still return success
+            await revokeAuthSessionByRefreshToken(db, refreshToken, "logout");
+            return c.json({ success: true, message: "Logged out" });
+        } catch (error) {
+            console.error("Logout Error:", error);
+            return c.json({ success: false, error: "Failed to log out" }, 500);
+        }
+    },
+);
+
+// Log out every session of the current user
+app.post("/logout-all", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+
+    try {
+        const revokedCount = await revokeAllAuthSessions(db, userId, "logout_all");
+        console.log(`User ${userId} logged out of ${revokedCount} sessions`);
+        return c.json({ success: true, message: "Logged out everywhere", revokedCount });
+    } catch (error) {
+        console.error("Logout All Error:", error);
+        return c.json({ success: false, error: "Failed to log out" }, 500);
+    }
+});
+
 // Export the Hono app instance for this route
 export default app;
@@ -2,11 +2,18 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { and, eq, or, sql, ne, inArray } from "drizzle-orm";
+import { and, eq, or, sql, ne, inArray, isNull } from "drizzle-orm";
 import { AppContext, AppEnv } from "../types";
-import { users, friendships, deviceTokens } from "../db/schema"; // Import deviceTokens
-import { jwtMiddleware } from "../lib/auth";
-import { ApnsPayload, sendPushNotifications } from "../lib/apns"; // Import APNS functions
+import { users, friendships } from "../db/schema";
+import { jwtMiddleware, requireScope } from "../lib/auth";
+import { rateLimit } from "../lib/rateLimit";
+import { ApnsPayload } from "../lib/apns";
+import { getAvatarUrl } from "../lib/avatar";
+import { describeFriendship } from "../lib/friends";
+import { formatAvailability } from "../lib/availability";
+import { type Locale, t } from "../lib/i18n";
+import { resolvePushRecipients } from "../lib/notifications";
+import { dispatchOutbox, enqueuePushNotifications } from "../lib/outbox";
 
 // Define validation schemas
 const friendRequestSchema = z
@@ -23,47 +30,35 @@ const friendRequestSchema = z
 const app = new Hono<AppEnv>();
 
 // --- Helper Function for Sending Friend Notifications ---
-// Encapsulates fetching tokens and sending notification
+// Encapsulates fetching tokens and queueing the notification
 const notifyUser = async (
     c: AppContext,
     recipientId: number,
-    payload: ApnsPayload,
+    type: "friend_request" | "friend_accept",
+    buildPayload: (locale: Locale) => ApnsPayload,
 ) => {
     const db = c.get("db");
     const env = c.env;
 
     try {
-        // Fetch recipient's iOS device tokens
-        const recipientTokens = await db.query.deviceTokens.findMany({
-            where: and(
-                eq(deviceTokens.userId, recipientId),
-                eq(deviceTokens.platform, "ios"),
-            ),
-            columns: { token: true },
-        });
-
-        const tokensToSend = recipientTokens.map((t) => t.token);
-
-        if (tokensToSend.length > 0) {
+        // Respects the recipient's availability status and notification preferences
+        const resolved = await resolvePushRecipients(db, [recipientId], type);
+        const { users, recipients, unavailableUserIds, optedOutUserIds } = resolved;
+        if (unavailableUserIds.length > 0 || optedOutUserIds.length > 0) {
             console.log(
-                `Sending notification type '${payload.notificationType}' to user ${recipientId} (${tokensToSend.length} tokens)`,
+                `User ${recipientId} is unavailable or opted out, skipping notification type '${type}'.`,
             );
-            // Await the result instead of fire and forget
-            try {
-                const result = await sendPushNotifications(env, tokensToSend, payload);
-                console.log(
-                    `Friend notification result for user ${recipientId}: ${result.successCount} success, ${result.failureCount} failed.`,
-                );
-            } catch (err) {
-                console.error(
-                    `Error sending friend notification to user ${recipientId}:`,
-                    err,
-                );
-            }
-        } else {
+            return;
+        }
+
+        if (users.length > 0) {
             console.log(
-                `No iOS device tokens found for user ${recipientId} to send notification type '${payload.notificationType}'.`,
+                `Queueing notification type '${type}' to user ${recipientId} (${recipients.length} tokens)`,
             );
+            // Recorded in the inbox even without devices; pushes are sent after
+            // responding and retried from the outbox
+            const queued = await enqueuePushNotifications(db, resolved, type, buildPayload);
+            c.executionCtx.waitUntil(dispatchOutbox(env, db, queued.ids));
         }
     } catch (error) {
         console.error(
@@ -75,7 +70,7 @@ const notifyUser = async (
 
 // --- GET routes remain the same ---
 
-app.get("/", jwtMiddleware, async (c) => {
+app.get("/", requireScope("friends:read"), async (c) => {
     const userId = c.get("jwtPayload").id;
     const db = c.get("db");
 
@@ -92,6 +87,9 @@ app.get("/", jwtMiddleware, async (c) => {
                         id: true,
                         username: true,
                         fullName: true,
+                        avatarKey: true,
+                        availability: true,
+                        availabilityExpiresAt: true,
                     },
                 },
                 user2: {
@@ -99,6 +97,9 @@ app.get("/", jwtMiddleware, async (c) => {
                         id: true,
                         username: true,
                         fullName: true,
+                        avatarKey: true,
+                        availability: true,
+                        availabilityExpiresAt: true,
                     },
                 },
             },
@@ -118,6 +119,8 @@ app.get("/", jwtMiddleware, async (c) => {
                 id: friend.id, // The friend's user ID
                 username: friend.username,
                 fullName: friend.fullName,
+                avatarUrl: getAvatarUrl(c, friend.avatarKey),
+                availability: formatAvailability(friend),
                 friendshipId: `${user1Id}-${user2Id}`, // Consistent ID for removal
             };
         });
@@ -129,7 +132,7 @@ app.get("/", jwtMiddleware, async (c) => {
     }
 });
 
-app.get("/requests", jwtMiddleware, async (c) => {
+app.get("/requests", requireScope("friends:read"), async (c) => {
     const userId = c.get("jwtPayload").id; // This user is the recipient (userId2)
     const db = c.get("db");
 
@@ -147,6 +150,7 @@ app.get("/requests", jwtMiddleware, async (c) => {
                         id: true,
                         username: true,
                         fullName: true,
+                        avatarKey: true,
                     },
                 },
             },
@@ -157,6 +161,7 @@ app.get("/requests", jwtMiddleware, async (c) => {
             id: request.user1.id,
             username: request.user1.username,
             fullName: request.user1.fullName,
+            avatarUrl: getAvatarUrl(c, request.user1.avatarKey),
             // Use consistent ID format: requesterId-recipientId
             // Here, user1 is requester, userId (current user) is recipient
             requestId: `${request.userId1}-${request.userId2}`,
@@ -172,7 +177,7 @@ app.get("/requests", jwtMiddleware, async (c) => {
     }
 });
 
-app.get("/search", jwtMiddleware, async (c) => {
+app.get("/search", jwtMiddleware, rateLimit("search"), async (c) => {
     const userId = c.get("jwtPayload").id;
     const query = c.req.query("q");
 
@@ -196,11 +201,15 @@ app.get("/search", jwtMiddleware, async (c) => {
                 // Use lower() for case-insensitive search if DB supports it well (SQLite does)
                 sql`lower(${users.username}) LIKE ${`%${query.toLowerCase()}%`}`,
                 ne(users.id, userId), // Exclude self
+                isNull(users.deletionScheduledAt), // Hide accounts pending deletion
+                isNull(users.suspendedAt), // Hide suspended accounts
+                eq(users.searchable, true), // Respect the user's privacy setting
             ),
             columns: {
                 id: true,
                 username: true,
                 fullName: true,
+                avatarKey: true,
             },
             limit: 10, // Limit results
         });
@@ -233,21 +242,13 @@ app.get("/search", jwtMiddleware, async (c) => {
                     (f.userId1 === user.id && f.userId2 === userId),
             );
 
-            let status: "accepted" | "pending" | "none" = "none";
-            let direction: "sent" | "received" | null = null;
-
-            if (friendship) {
-                status = friendship.status;
-                if (status === "pending") {
-                    // If userId1 is the current user, they sent the request
-                    direction = friendship.userId1 === userId ? "sent" : "received";
-                }
-            }
+            const { status, direction } = describeFriendship(friendship, userId);
 
             return {
                 id: user.id,
                 username: user.username,
                 fullName: user.fullName,
+                avatarUrl: getAvatarUrl(c, user.avatarKey),
                 status: status,
                 direction: direction, // Indicates who initiated if pending
             };
@@ -264,6 +265,7 @@ app.get("/search", jwtMiddleware, async (c) => {
 app.post(
     "/request",
     jwtMiddleware,
+    rateLimit("friendRequest"),
     zValidator("json", friendRequestSchema),
     async (c) => {
         const userId = c.get("jwtPayload").id; // The user initiating this action
@@ -273,7 +275,7 @@ app.post(
         // Get current user's info for notifications
         const currentUser = await db.query.users.findFirst({
             where: eq(users.id, userId),
-            columns: { username: true, fullName: true },
+            columns: { username: true, fullName: true, avatarKey: true },
         });
         // If user somehow doesn't exist (token valid but DB inconsistent), proceed but log error
         if (!currentUser) {
@@ -296,12 +298,20 @@ app.post(
                     );
                 }
                 targetUser = await db.query.users.findFirst({
-                    where: eq(users.id, targetUserIdInput),
+                    where: and(
+                        eq(users.id, targetUserIdInput),
+                        isNull(users.deletionScheduledAt),
+                        isNull(users.suspendedAt),
+                    ),
                     columns: { id: true },
                 });
             } else if (username) {
                 targetUser = await db.query.users.findFirst({
-                    where: eq(users.username, username),
+                    where: and(
+                        eq(users.username, username),
+                        isNull(users.deletionScheduledAt),
+                        isNull(users.suspendedAt),
+                    ),
                     columns: { id: true },
                 });
                 if (targetUser?.id === userId) {
@@ -365,21 +375,25 @@ app.post(
                             .run(); // Use run() for D1 updates
 
                         // --- Send Notification: Request Accepted ---
-                        const payload: ApnsPayload = {
+                        const buildPayload = (locale: Locale): ApnsPayload => ({
                             aps: {
                                 alert: {
-                                    title: "Friend Request Accepted",
+                                    title: t(locale, "Friend Request Accepted"),
                                     // currentUserName is User A (who triggered the accept by sending a request)
-                                    body: `${currentUserName} accepted your friend request!`,
+                                    body: t(locale, "{name} accepted your friend request!", {
+                                        name: currentUserName,
+                                    }),
                                 },
                                 sound: "default",
+                                "mutable-content": 1, // Lets the service extension attach the avatar
                             },
                             notificationType: "friend_accepted",
                             accepterId: userId, // ID of User A
                             accepterUsername: currentUser?.username, // Username of User A
-                        };
+                            accepterAvatarUrl: getAvatarUrl(c, currentUser?.avatarKey),
+                        });
                         // Notify the original requester (targetUserId - User B in this case)
-                        await notifyUser(c, targetUserId, payload);
+                        await notifyUser(c, targetUserId, "friend_accept", buildPayload);
                         // --- End Notification ---
 
                         return c.json({
@@ -400,22 +414,25 @@ app.post(
             });
 
             // --- Send Notification: Request Received ---
-            const payload: ApnsPayload = {
+            const buildPayload = (locale: Locale): ApnsPayload => ({
                 aps: {
                     alert: {
-                        title: "New Friend Request",
+                        title: t(locale, "New Friend Request"),
                         // currentUserName is the name of the user sending the request (User A)
-                        body: `${currentUserName} sent you a friend request.`,
+                        body: t(locale, "{name} sent you a friend request.", {
+                            name: currentUserName,
+                        }),
                     },
                     sound: "default",
-                    // badge: 1, // Consider badge handling
+                    "mutable-content": 1, // Lets the service extension attach the avatar
                 },
                 notificationType: "friend_request", // Type for client routing
                 requesterId: userId, // ID of User A
                 requesterUsername: currentUser?.username, // Username of User A
-            };
+                requesterAvatarUrl: getAvatarUrl(c, currentUser?.avatarKey),
+            });
             // Notify the target user (User B)
-            await notifyUser(c, targetUserId, payload); // Calls the helper to send push
+            await notifyUser(c, targetUserId, "friend_request", buildPayload); // Calls the helper to send push
             // --- End Notification ---
 
             return c.json({
@@ -468,7 +485,7 @@ app.post("/accept/:requestId", jwtMiddleware, async (c) => {
     // Get accepter's info for notification
     const accepter = await db.query.users.findFirst({
         where: eq(users.id, userId),
-        columns: { username: true, fullName: true },
+        columns: { username: true, fullName: true, avatarKey: true },
     });
     if (!accepter) {
         console.error(
@@ -514,21 +531,25 @@ app.post("/accept/:requestId", jwtMiddleware, async (c) => {
         console.log(`User ${userId} accepted friend request from ${requesterId}`);
 
         // --- Send Notification: Request Accepted ---
-        const payload: ApnsPayload = {
+        const buildPayload = (locale: Locale): ApnsPayload => ({
             aps: {
                 alert: {
-                    title: "Friend Request Accepted",
+                    title: t(locale, "Friend Request Accepted"),
                     // accepterName is the name of the user accepting the request (User B)
-                    body: `${accepterName} accepted your friend request!`,
+                    body: t(locale, "{name} accepted your friend request!", {
+                        name: accepterName,
+                    }),
                 },
                 sound: "default",
+                "mutable-content": 1, // Lets the service extension attach the avatar
             },
             notificationType: "friend_accepted", // Type for client routing
             accepterId: userId, // ID of User B
             accepterUsername: accepter?.username, // Username of User B
-        };
+            accepterAvatarUrl: getAvatarUrl(c, accepter?.avatarKey),
+        });
         // Notify the original requester (User A)
-        await notifyUser(c, requesterId, payload); // Calls the helper to send push
+        await notifyUser(c, requesterId, "friend_accept", buildPayload); // Calls the helper to send push
         // --- End Notification ---
 
         return c.json({ success: true, message: "Friend request accepted" });
@@ -0,0 +1,88 @@
+// src/routes/notification.ts
+import { Hono } from "hono";
+import { zValidator } from "@hono/zod-validator";
+import { z } from "zod";
+import { AppEnv } from "../types";
+import { jwtMiddleware } from "../lib/auth";
+import {
+    getUnreadCount,
+    listInboxNotifications,
+    markInboxNotificationsRead,
+} from "../lib/inbox";
+
+// Define validation schemas
+const listQuerySchema = z.object({
+    cursor: z.coerce.number().int().positive().optional(), // `nextCursor` of the previous page
+    limit: z.coerce.number().int().min(1).max(50).default(20),
+    unread: z.enum(["true", "false"]).optional(), // 'true' lists unread entries only
+});
+
+const markReadSchema = z.object({
+    // Omit to mark the whole inbox as read
+    ids: z.array(z.number().int().positive()).min(1).max(100).optional(),
+});
+
+// Create a router instance; the inbox belongs to the signed-in user
+const app = new Hono<AppEnv>();
+app.use("*", jwtMiddleware);
+
+// List the inbox, newest first
+// Pass `nextCursor` back as `cursor` to fetch the next page.
+app.get("/", zValidator("query", listQuerySchema), async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const { cursor, limit, unread } = c.req.valid("query");
+    const db = c.get("db");
+
+    try {
+        const page = await listInboxNotifications(db, userId, {
+            cursor,
+            limit,
+            unreadOnly: unread === "true",
+        });
+        return c.json({
+            success: true,
+            notifications: page.notifications.map(({ readAt, ...notification }) => ({
+                ...notification,
+                read: readAt !== null,
+                readAt,
+            })),
+            nextCursor: page.nextCursor,
+        });
+    } catch (error) {
+        console.error("List Notifications Error:", error);
+        return c.json({ success: false, error: "Failed to fetch notifications" }, 500);
+    }
+});
+
+// Unread entry count, i.e. the app icon badge
+app.get("/unread-count", async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+
+    try {
+        const unreadCount = await getUnreadCount(db, userId);
+        return c.json({ success: true, unreadCount });
+    } catch (error) {
+        console.error("Unread Notification Count Error:", error);
+        return c.json({ success: false, error: "Failed to count unread notifications" }, 500);
+    }
+});
+
+// Mark entries (or the whole inbox) as read
+// Returns the new unread count so the app can update its badge.
+app.post("/read", zValidator("json", markReadSchema), async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const { ids } = c.req.valid("json");
+    const db = c.get("db");
+
+    try {
+        const updated = await markInboxNotificationsRead(db, userId, ids);
+        const unreadCount = await getUnreadCount(db, userId);
+        return c.json({ success: true, updated, unreadCount });
+    } catch (error) {
+        console.error("Mark Notifications Read Error:", error);
+        return c.json({ success: false, error: "Failed to mark notifications as read" }, 500);
+    }
+});
+
+export default app;
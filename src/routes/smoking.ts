@@ -2,71 +2,67 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { and, eq, isNull, ne, sql, or, desc, inArray, asc } from "drizzle-orm";
+import {
+    and,
+    eq,
+    isNull,
+    ne,
+    sql,
+    or,
+    desc,
+    inArray,
+    asc,
+} from "drizzle-orm";
 import { AppEnv, AppContext } from "../types"; // Import AppContext
 import {
     users,
     friendships,
     smokingSessions,
     sessionResponses,
-    deviceTokens,
+    liveActivityTokens,
 } from "../db/schema";
-import { jwtMiddleware } from "../lib/auth";
-import {
-    ApnsPayload,
-    notifyFriendsOfSession,
-    sendPushNotifications, // Keep this import
-} from "../lib/apns";
+import { requireScope } from "../lib/auth";
+import { rateLimit } from "../lib/rateLimit";
+import { ApnsPayload, buildNewSessionPayload } from "../lib/apns";
+import { getAvatarUrl } from "../lib/avatar";
+import { formatAvailability } from "../lib/availability";
+import { type Locale, t } from "../lib/i18n";
+import { findFriendship, getFriendIds } from "../lib/friends";
+import { ResolvedRecipients, resolvePushRecipients } from "../lib/notifications";
+import { dispatchOutbox, enqueuePushNotifications } from "../lib/outbox";
+import { registerLiveActivityToken, sendLiveActivityUpdate } from "../lib/liveActivity";
 
 // Define validation schemas
 const responseSchema = z.object({
     responseType: z.enum(["coming", "done", "coming_5"]),
 });
 
+const liveActivitySchema = z.object({
+    sessionId: z.number().int().positive(),
+    token: z.string().min(1), // The activity's push token (hex)
+    // APNS host for this build; omit to use the server's APNS_ENVIRONMENT
+    apnsEnvironment: z.enum(["development", "production"]).optional(),
+});
+
 // Create a router instance
 const app = new Hono<AppEnv>();
 
 // --- Helper Function for Fetching Friend Tokens ---
 // Extracted for reuse in /start and /end
+// Friends whose availability status blocks session notifications, or who turned
+// this notification type off, are skipped. Tokens carry their owner's quiet-hours settings.
 const getFriendDeviceTokens = async (
     db: AppContext["var"]["db"],
     userId: number,
-    platform: "ios" | "android" = "ios", // Default to iOS for now
-): Promise<{ tokens: string[]; friendIds: number[] }> => {
-    const friends = await db.query.friendships.findMany({
-        where: and(
-            or(eq(friendships.userId1, userId), eq(friendships.userId2, userId)),
-            eq(friendships.status, "accepted"),
-        ),
-        columns: {
-            userId1: true,
-            userId2: true,
-        },
-    });
-
-    const friendIds = friends
-        .map((f) => (f.userId1 === userId ? f.userId2 : f.userId1))
-        .filter((id) => id !== userId);
-
-    if (friendIds.length === 0) {
-        return { tokens: [], friendIds: [] };
-    }
-
-    const friendTokens = await db.query.deviceTokens.findMany({
-        where: and(
-            inArray(deviceTokens.userId, friendIds),
-            eq(deviceTokens.platform, platform),
-        ),
-        columns: {
-            token: true,
-        },
-    });
-
-    return { tokens: friendTokens.map((t) => t.token), friendIds };
+    type: "new_session" | "session_ended",
+): Promise<ResolvedRecipients & { friendIds: number[] }> => {
+    const friendIds = await getFriendIds(db, userId);
+    const resolved = await resolvePushRecipients(db, friendIds, type);
+    return { ...resolved, friendIds };
 };
 
 // --- POST /start route ---
-app.post("/start", jwtMiddleware, async (c) => {
+app.post("/start", requireScope("sessions:write"), rateLimit("sessionStart"), async (c) => {
     const userId = c.get("jwtPayload").id;
     const db = c.get("db");
     const env = c.env;
@@ -103,48 +99,85 @@ app.post("/start", jwtMiddleware, async (c) => {
         const sessionId = result[0].id;
 
         // --- Notification Logic ---
-        let notificationSuccessCount = 0;
-        let notificationFailureCount = 0;
-        let friendsToNotifyCount = 0;
-
-        const { tokens: tokensToSend, friendIds } = await getFriendDeviceTokens(
-            db,
-            userId,
-        );
-        friendsToNotifyCount = tokensToSend.length;
+        // Queued in the outbox and sent after responding
+        let queuedCount = 0;
+        let unavailableCount = 0;
+        let optedOutCount = 0;
+        let quietHoursSilencedCount = 0;
+        let quietHoursSkippedCount = 0;
 
-        if (tokensToSend.length > 0) {
-            console.log(
-                `Found ${tokensToSend.length} iOS tokens for friends: ${friendIds.join(", ")}`,
-            );
-            const currentUser = await db.query.users.findFirst({
-                where: eq(users.id, userId),
-                columns: { id: true, username: true, fullName: true },
-            });
-
-            if (!currentUser) {
-                console.error(
-                    `Could not find user ${userId} for notification details.`,
+        try {
+            const resolved = await getFriendDeviceTokens(db, userId, "new_session");
+            const {
+                users: notifiedUsers,
+                recipients,
+                friendIds,
+                unavailableUserIds,
+                optedOutUserIds,
+            } = resolved;
+            unavailableCount = unavailableUserIds.length;
+            optedOutCount = optedOutUserIds.length;
+            if (unavailableUserIds.length > 0) {
+                console.log(
+                    `Skipping ${unavailableUserIds.length} unavailable friends: ${unavailableUserIds.join(", ")}`,
                 );
-            } else {
+            }
+            if (optedOutUserIds.length > 0) {
                 console.log(
-                    `Notifying friends about session ${sessionId} started by user ${userId} (${currentUser.username})`,
+                    `Skipping ${optedOutUserIds.length} friends who turned off session notifications: ${optedOutUserIds.join(", ")}`,
                 );
-                const notificationResult = await notifyFriendsOfSession(
-                    env,
-                    tokensToSend,
-                    currentUser,
-                    sessionId,
+            }
+
+            if (notifiedUsers.length > 0) {
+                console.log(
+                    `Found ${recipients.length} device tokens for friends: ${friendIds.join(", ")}`,
                 );
-                notificationSuccessCount = notificationResult.successCount;
-                notificationFailureCount = notificationResult.failureCount;
+                const currentUser = await db.query.users.findFirst({
+                    where: eq(users.id, userId),
+                    columns: {
+                        id: true,
+                        username: true,
+                        fullName: true,
+                        avatarKey: true,
+                    },
+                });
+
+                if (!currentUser) {
+                    console.error(
+                        `Could not find user ${userId} for notification details.`,
+                    );
+                } else {
+                    console.log(
+                        `Notifying friends about session ${sessionId} started by user ${userId} (${currentUser.username})`,
+                    );
+                    const queued = await enqueuePushNotifications(
+                        db,
+                        resolved,
+                        "new_session",
+                        (locale) =>
+                            buildNewSessionPayload(
+                                {
+                                    ...currentUser,
+                                    avatarUrl: getAvatarUrl(c, currentUser.avatarKey),
+                                },
+                                sessionId,
+                                locale,
+                            ),
+                    );
+                    c.executionCtx.waitUntil(dispatchOutbox(env, db, queued.ids));
+                    queuedCount = queued.queuedCount;
+                    quietHoursSilencedCount = queued.silencedCount;
+                    quietHoursSkippedCount = queued.skippedCount;
+                }
+            } else {
                 console.log(
-                    `Session start notification result: ${notificationSuccessCount} success, ${notificationFailureCount} failed.`,
+                    `User ${userId} has no friends to notify.`,
                 );
             }
-        } else {
-            console.log(
-                `User ${userId} has no friends or friends have no iOS tokens to notify.`,
+        } catch (err) {
+            console.error(
+                `Error notifying friends about session ${sessionId}:`,
+                err,
             );
         }
         // --- End Notification Logic ---
@@ -154,9 +187,11 @@ app.post("/start", jwtMiddleware, async (c) => {
             sessionId,
             message: "Nongki session started.",
             notifications: {
-                attempted: friendsToNotifyCount,
-                successful: notificationSuccessCount,
-                failed: notificationFailureCount,
+                queued: queuedCount, // Devices that will be notified
+                skippedUnavailable: unavailableCount, // Friends who are busy or in DND
+                skippedOptedOut: optedOutCount, // Friends who turned off new_session
+                silencedQuietHours: quietHoursSilencedCount, // Delivered without sound
+                skippedQuietHours: quietHoursSkippedCount,
             },
         });
     } catch (error: any) {
@@ -169,7 +204,7 @@ app.post("/start", jwtMiddleware, async (c) => {
 });
 
 // --- GET /active route ---
-app.get("/active", jwtMiddleware, async (c) => {
+app.get("/active", requireScope("sessions:read"), async (c) => {
     const userId = c.get("jwtPayload").id;
     const db = c.get("db");
 
@@ -210,6 +245,9 @@ app.get("/active", jwtMiddleware, async (c) => {
                         id: true,
                         username: true,
                         fullName: true,
+                        avatarKey: true,
+                        availability: true,
+                        availabilityExpiresAt: true,
                     },
                 },
                 // Get the current user's response to this session
@@ -236,6 +274,8 @@ app.get("/active", jwtMiddleware, async (c) => {
                     id: session.user.id,
                     username: session.user.username,
                     fullName: session.user.fullName,
+                    avatarUrl: getAvatarUrl(c, session.user.avatarKey),
+                    availability: formatAvailability(session.user),
                 },
                 userResponse, // Indicates if the current user has responded
             };
@@ -252,7 +292,7 @@ app.get("/active", jwtMiddleware, async (c) => {
 });
 
 // --- POST /end/:sessionId route ---
-app.post("/end/:sessionId", jwtMiddleware, async (c) => {
+app.post("/end/:sessionId", requireScope("sessions:write"), async (c) => {
     const userId = c.get("jwtPayload").id;
     const sessionIdParam = c.req.param("sessionId");
     const sessionId = parseInt(sessionIdParam, 10);
@@ -306,64 +346,71 @@ app.post("/end/:sessionId", jwtMiddleware, async (c) => {
 
         console.log(`User ${userId} ended session ${sessionId}`);
 
+        // Ends and dismisses the Live Activities following the session
+        c.executionCtx.waitUntil(sendLiveActivityUpdate(env, db, sessionId, endTime));
+
         // --- Notify Friends Session Ended ---
-        let notificationSuccessCount = 0;
-        let notificationFailureCount = 0;
-        let friendsToNotifyCount = 0;
+        // Queued in the outbox and sent after responding
+        let queuedCount = 0;
 
-        const { tokens: tokensToSend, friendIds } = await getFriendDeviceTokens(
-            db,
-            userId,
-        );
-        friendsToNotifyCount = tokensToSend.length;
+        try {
+            const resolved = await getFriendDeviceTokens(db, userId, "session_ended");
+            const { users: notifiedUsers, recipients, friendIds } = resolved;
 
-        if (tokensToSend.length > 0) {
-            console.log(
-                `Found ${tokensToSend.length} iOS tokens for friends to notify about session end: ${friendIds.join(", ")}`,
-            );
-            const currentUser = await db.query.users.findFirst({
-                where: eq(users.id, userId),
-                columns: { username: true, fullName: true },
-            });
+            if (notifiedUsers.length > 0) {
+                console.log(
+                    `Found ${recipients.length} device tokens for friends to notify about session end: ${friendIds.join(", ")}`,
+                );
+                const currentUser = await db.query.users.findFirst({
+                    where: eq(users.id, userId),
+                    columns: { username: true, fullName: true, avatarKey: true },
+                });
 
-            if (currentUser) {
-                const userName = currentUser.fullName || currentUser.username;
-                const payload: ApnsPayload = {
-                    aps: {
-                        alert: {
-                            // Title is optional, body is sufficient
-                            body: `${userName} has ended their nongki session.`,
+                if (currentUser) {
+                    const userName = currentUser.fullName || currentUser.username;
+                    const buildPayload = (locale: Locale): ApnsPayload => ({
+                        aps: {
+                            alert: {
+                                // Title is optional, body is sufficient
+                                body: t(locale, "{name} has ended their nongki session.", {
+                                    name: userName,
+                                }),
+                            },
+                            sound: "default",
+                            "mutable-content": 1, // Lets the service extension attach the avatar
                         },
-                        sound: "default",
-                    },
-                    notificationType: "session_ended", // Distinct type
-                    sessionId: sessionId,
-                    enderId: userId,
-                    enderUsername: currentUser.username,
-                };
+                        notificationType: "session_ended", // Distinct type
+                        sessionId: sessionId,
+                        enderId: userId,
+                        enderUsername: currentUser.username,
+                        enderAvatarUrl: getAvatarUrl(c, currentUser.avatarKey),
+                    });
 
-                console.log(
-                    `Notifying friends about session ${sessionId} ending by user ${userId} (${currentUser.username})`,
-                );
-                // Use the generic sender function
-                const notificationResult = await sendPushNotifications(
-                    env,
-                    tokensToSend,
-                    payload,
-                );
-                notificationSuccessCount = notificationResult.successCount;
-                notificationFailureCount = notificationResult.failureCount;
-                console.log(
-                    `Session end notification result: ${notificationSuccessCount} success, ${notificationFailureCount} failed.`,
-                );
+                    console.log(
+                        `Notifying friends about session ${sessionId} ending by user ${userId} (${currentUser.username})`,
+                    );
+                    const queued = await enqueuePushNotifications(
+                        db,
+                        resolved,
+                        "session_ended",
+                        buildPayload,
+                    );
+                    c.executionCtx.waitUntil(dispatchOutbox(env, db, queued.ids));
+                    queuedCount = queued.queuedCount;
+                } else {
+                    console.error(
+                        `Could not find user ${userId} for session end notification details.`,
+                    );
+                }
             } else {
-                console.error(
-                    `Could not find user ${userId} for session end notification details.`,
+                console.log(
+                    `User ${userId} has no friends to notify about session end.`,
                 );
             }
-        } else {
-            console.log(
-                `User ${userId} has no friends or friends have no iOS tokens to notify about session end.`,
+        } catch (err) {
+            console.error(
+                `Error notifying friends about end of session ${sessionId}:`,
+                err,
             );
         }
         // --- End Notification Logic ---
@@ -373,9 +420,7 @@ app.post("/end/:sessionId", jwtMiddleware, async (c) => {
             message: "Smoking session ended",
             notifications: {
                 // Optional: include notification info in response
-                attempted: friendsToNotifyCount,
-                successful: notificationSuccessCount,
-                failed: notificationFailureCount,
+                queued: queuedCount,
             },
         });
     } catch (error) {
@@ -390,7 +435,7 @@ app.post("/end/:sessionId", jwtMiddleware, async (c) => {
 // --- POST /respond/:sessionId route ---
 app.post(
     "/respond/:sessionId",
-    jwtMiddleware,
+    requireScope("sessions:write"),
     zValidator("json", responseSchema),
     async (c) => {
         const responderId = c.get("jwtPayload").id; // User sending the response
@@ -482,74 +527,72 @@ app.post(
                 })
                 .run();
 
-            // --- Send Notification to Session Owner ---
-            const ownerTokens = await db.query.deviceTokens.findMany({
-                where: and(
-                    eq(deviceTokens.userId, ownerId),
-                    eq(deviceTokens.platform, "ios"),
-                ),
-                columns: { token: true },
-            });
+            // Live Activities following the session show the new counts
+            c.executionCtx.waitUntil(sendLiveActivityUpdate(env, db, sessionId));
 
-            const tokensToSend = ownerTokens.map((t) => t.token);
+            // --- Send Notification to Session Owner ---
+            const owner = await resolvePushRecipients(db, [ownerId], "session_response");
+            const ownerRecipients = owner.recipients;
 
-            if (tokensToSend.length > 0) {
+            if (owner.users.length > 0) {
                 console.log(
-                    `Found ${tokensToSend.length} iOS tokens for session owner ${ownerId}:`,
-                    tokensToSend.map((t) => `${t.substring(0, 5)}...`),
+                    `Found ${ownerRecipients.length} device tokens for session owner ${ownerId}:`,
+                    ownerRecipients.map((r) => `${r.token.substring(0, 5)}...`),
                 );
 
                 const responder = await db.query.users.findFirst({
                     where: eq(users.id, responderId),
-                    columns: { username: true, fullName: true },
+                    columns: { username: true, fullName: true, avatarKey: true },
                 });
 
                 if (responder) {
                     const responderName = responder.fullName || responder.username;
-                    let responseText = "";
-                    switch (responseType) {
-                        case "coming":
-                            responseText = "is coming!";
-                            break;
-                        case "done":
-                            responseText = "is done.";
-                            break;
-                        case "coming_5":
-                            responseText = "is coming in 5 minutes.";
-                            break;
-                    }
+                    const responseBody = (locale: Locale): string => {
+                        switch (responseType) {
+                            case "coming":
+                                return t(locale, "{name} is coming!", { name: responderName });
+                            case "done":
+                                return t(locale, "{name} is done.", { name: responderName });
+                            case "coming_5":
+                                return t(locale, "{name} is coming in {count} minutes.", {
+                                    name: responderName,
+                                    count: 5,
+                                });
+                        }
+                    };
 
-                    const notificationPayload: ApnsPayload = {
+                    const buildPayload = (locale: Locale): ApnsPayload => ({
                         aps: {
                             alert: {
-                                title: "Session Response",
-                                body: `${responderName} ${responseText}`,
+                                title: t(locale, "Session Response"),
+                                body: responseBody(locale),
                             },
                             sound: "default",
+                            "mutable-content": 1, // Lets the service extension attach the avatar
                         },
                         notificationType: "session_response",
                         sessionId: sessionId,
                         responderId: responderId,
                         responderUsername: responder.username,
+                        responderAvatarUrl: getAvatarUrl(c, responder.avatarKey),
                         responseType: responseType,
-                    };
+                    });
 
                     console.log(
-                        `Attempting to send response notification to owner ${ownerId} (tokens: ${tokensToSend.length})`,
+                        `Queueing response notification to owner ${ownerId} (tokens: ${ownerRecipients.length})`,
                     );
-                    // Await the result for better logging during development
+                    // Sent after responding; failures are retried from the outbox
                     try {
-                        const result = await sendPushNotifications(
-                            env,
-                            tokensToSend,
-                            notificationPayload,
-                        );
-                        console.log(
-                            `Response notification result for owner ${ownerId}: ${result.successCount} success, ${result.failureCount} failed.`,
+                        const queued = await enqueuePushNotifications(
+                            db,
+                            owner,
+                            "session_response",
+                            buildPayload,
                         );
+                        c.executionCtx.waitUntil(dispatchOutbox(env, db, queued.ids));
                     } catch (err) {
                         console.error(
-                            `Error awaiting response notification to owner ${ownerId}:`,
+                            `Error queueing response notification to owner ${ownerId}:`,
                             err,
                         );
                     }
@@ -560,7 +603,7 @@ app.post(
                 }
             } else {
                 console.log(
-                    `Session owner ${ownerId} has no registered iOS device tokens.`,
+                    `Session owner ${ownerId} is unavailable or opted out of responses.`,
                 );
             }
             // --- End Notification Logic ---
@@ -583,8 +626,91 @@ app.post(
     },
 );
 
+// --- Live Activities ---
+// The app starts a Live Activity for a friend's session (or its own) and
+// registers the activity's push token; responses update it and ending the session ends it.
+app.post(
+    "/live-activities",
+    requireScope("sessions:write"),
+    zValidator("json", liveActivitySchema),
+    async (c) => {
+        const userId = c.get("jwtPayload").id;
+        const { sessionId, token, apnsEnvironment } = c.req.valid("json");
+        const db = c.get("db");
+
+        try {
+            const session = await db.query.smokingSessions.findFirst({
+                where: and(
+                    eq(smokingSessions.id, sessionId),
+                    isNull(smokingSessions.endTime),
+                ),
+                columns: { userId: true },
+            });
+            if (!session) {
+                return c.json({ success: false, error: "Active session not found" }, 404);
+            }
+
+            if (session.userId !== userId) {
+                const friendship = await findFriendship(db, userId, session.userId);
+                if (friendship?.status !== "accepted") {
+                    return c.json(
+                        {
+                            success: false,
+                            error: "You are not friends with the session creator",
+                        },
+                        403,
+                    );
+                }
+            }
+
+            await registerLiveActivityToken(db, {
+                sessionId,
+                userId,
+                token,
+                apnsEnvironment,
+            });
+            console.log(`User ${userId} registered a Live Activity for session ${sessionId}`);
+
+            return c.json({ success: true, message: "Live Activity registered" });
+        } catch (error) {
+            console.error("Register Live Activity Error:", error);
+            return c.json(
+                { success: false, error: "Failed to register Live Activity" },
+                500,
+            );
+        }
+    },
+);
+
+// Stop updating an activity the user dismissed
+app.delete("/live-activities/:token", requireScope("sessions:write"), async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const token = c.req.param("token");
+    const db = c.get("db");
+
+    try {
+        const deleted = await db
+            .delete(liveActivityTokens)
+            .where(
+                and(
+                    eq(liveActivityTokens.token, token),
+                    eq(liveActivityTokens.userId, userId),
+                ),
+            )
+            .returning({ id: liveActivityTokens.id });
+        if (deleted.length === 0) {
+            return c.json({ success: false, error: "Live Activity not found" }, 404);
+        }
+
+        return c.json({ success: true, message: "Live Activity removed" });
+    } catch (error) {
+        console.error("Delete Live Activity Error:", error);
+        return c.json({ success: false, error: "Failed to remove Live Activity" }, 500);
+    }
+});
+
 // --- GET /responses/:sessionId route ---
-app.get("/responses/:sessionId", jwtMiddleware, async (c) => {
+app.get("/responses/:sessionId", requireScope("sessions:read"), async (c) => {
     const userId = c.get("jwtPayload").id;
     const sessionIdParam = c.req.param("sessionId");
     const sessionId = parseInt(sessionIdParam, 10);
@@ -633,6 +759,7 @@ app.get("/responses/:sessionId", jwtMiddleware, async (c) => {
                         id: true,
                         username: true,
                         fullName: true,
+                        avatarKey: true,
                     },
                 },
             },
@@ -647,6 +774,7 @@ app.get("/responses/:sessionId", jwtMiddleware, async (c) => {
                 id: response.responder.id,
                 username: response.responder.username,
                 fullName: response.responder.fullName,
+                avatarUrl: getAvatarUrl(c, response.responder.avatarKey),
             },
         }));
 
@@ -672,7 +800,7 @@ app.get("/responses/:sessionId", jwtMiddleware, async (c) => {
 });
 
 // --- GET /history route ---
-app.get("/history", jwtMiddleware, async (c) => {
+app.get("/history", requireScope("sessions:read"), async (c) => {
     const userId = c.get("jwtPayload").id;
     const limitParam = c.req.query("limit");
     const pageParam = c.req.query("page");
@@ -696,6 +824,7 @@ app.get("/history", jwtMiddleware, async (c) => {
                                 id: true,
                                 username: true,
                                 fullName: true,
+                                avatarKey: true,
                             },
                         },
                     },
@@ -727,6 +856,7 @@ app.get("/history", jwtMiddleware, async (c) => {
                     id: response.responder.id,
                     username: response.responder.username,
                     fullName: response.responder.fullName,
+                    avatarUrl: getAvatarUrl(c, response.responder.avatarKey),
                 },
             })),
         }));
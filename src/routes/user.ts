@@ -2,22 +2,127 @@
 import { Hono } from "hono";
 import { zValidator } from "@hono/zod-validator";
 import { z } from "zod";
-import { eq, sql } from "drizzle-orm";
+import { and, desc, eq, gte, isNull, sql } from "drizzle-orm";
 import { AppEnv } from "../types";
-import { users, deviceTokens } from "../db/schema";
-import { jwtMiddleware } from "../lib/auth";
+import {
+    users,
+    deviceTokens,
+    authSessions,
+    userIdentities,
+    dataExports,
+    personalAccessTokens,
+    smokingSessions,
+} from "../db/schema";
+import {
+    TOKEN_SCOPES,
+    createPersonalAccessToken,
+    jwtMiddleware,
+    revokeAuthSession,
+    revokeAllAuthSessions,
+    revokeAllPersonalAccessTokens,
+} from "../lib/auth";
+import { getDeletionGraceDays, scheduleAccountDeletion } from "../lib/account";
+import {
+    EXPORT_SYNC_ROW_LIMIT,
+    collectUserData,
+    countUserExportRows,
+    deleteUserDataExports,
+    processDataExport,
+    renderUserExport,
+} from "../lib/export";
+import {
+    countUsableSignInMethods,
+    getIdentityProvider,
+    usernameSchema,
+    verifyIdentityToken,
+} from "../lib/identity";
+import { rateLimit } from "../lib/rateLimit";
+import {
+    AVATAR_MAX_BYTES,
+    getAvatarUrl,
+    removeAvatar,
+    storeAvatar,
+    validateAvatarUpload,
+} from "../lib/avatar";
+import { describeFriendship, findFriendship, getFriendIds } from "../lib/friends";
+import { AVAILABILITY_STATUSES, formatAvailability } from "../lib/availability";
+import { QUIET_HOURS_TIME_PATTERN, isValidTimezone } from "../lib/quietHours";
+import { SUPPORTED_LOCALES } from "../lib/i18n";
+import {
+    NOTIFICATION_TYPES,
+    getNotificationPreferences,
+    updateNotificationPreferences,
+} from "../lib/notifications";
 
 // Define validation schemas
 const deviceTokenSchema = z.object({
     token: z.string().min(1),
     platform: z.enum(["ios", "android"]),
+    // APNS host for this build; omit to use the server's APNS_ENVIRONMENT
+    apnsEnvironment: z.enum(["development", "production"]).optional(),
+    // Device details shown in the device list
+    appVersion: z.string().max(32).optional(),
+    osVersion: z.string().max(32).optional(),
+    deviceName: z.string().max(100).optional(),
+    locale: z.string().max(35).optional(),
 });
 
 const updateProfileSchema = z.object({
-    username: z.string().min(3).optional(),
+    username: usernameSchema.optional(),
     fullName: z.string().optional(),
+    // Privacy settings
+    statsVisibility: z.enum(["everyone", "friends", "nobody"]).optional(),
+    searchable: z.boolean().optional(),
+    // Notification settings
+    timezone: z
+        .string()
+        .refine(isValidTimezone, { message: "Unknown IANA timezone" })
+        .optional(),
+    quietHours: z
+        .object({
+            start: z.string().regex(QUIET_HOURS_TIME_PATTERN, "Use HH:MM"),
+            end: z.string().regex(QUIET_HOURS_TIME_PATTERN, "Use HH:MM"),
+            mode: z.enum(["silent", "skip"]).default("silent"),
+        })
+        .nullable() // null turns quiet hours off
+        .optional(),
+    locale: z.enum(SUPPORTED_LOCALES).nullable().optional(), // null follows the device
+});
+
+const updateStatusSchema = z.object({
+    status: z.enum(AVAILABILITY_STATUSES),
+    // Revert to 'available' after this many minutes; omit to keep until changed
+    expiresInMinutes: z.number().int().min(1).max(7 * 24 * 60).optional(),
+});
+
+// Partial map of notification type to enabled; omitted types keep their setting
+const notificationPreferencesSchema = z
+    .record(z.enum(NOTIFICATION_TYPES), z.boolean())
+    .refine((prefs) => Object.keys(prefs).length > 0, {
+        message: "At least one notification type must be provided",
+    });
+
+const linkIdentitySchema = z.object({
+    provider: z.string().min(1),
+    idToken: z.string().min(1),
 });
 
+const exportQuerySchema = z.object({
+    format: z.enum(["json", "csv"]).default("json"),
+});
+
+const createTokenSchema = z.object({
+    name: z.string().trim().min(1).max(64),
+    scopes: z.array(z.enum(TOKEN_SCOPES)).min(1),
+    expiresInDays: z.number().int().min(1).max(365).optional(), // Omit for no expiry
+});
+
+// Upper bound on active personal access tokens per user
+const MAX_ACTIVE_TOKENS = 20;
+
+// Linking requires a recently issued ID token as proof of account ownership
+const LINK_PROOF_MAX_AGE = "10m";
+
 // Create a router instance
 const app = new Hono<AppEnv>();
 
@@ -34,7 +139,17 @@ app.get("/profile", jwtMiddleware, async (c) => {
                 username: true,
                 fullName: true,
                 email: true,
+                avatarKey: true,
                 createdAt: true,
+                statsVisibility: true,
+                searchable: true,
+                availability: true,
+                availabilityExpiresAt: true,
+                timezone: true,
+                quietHoursStart: true,
+                quietHoursEnd: true,
+                quietHoursMode: true,
+                locale: true,
             },
         });
 
@@ -42,7 +157,30 @@ app.get("/profile", jwtMiddleware, async (c) => {
             return c.json({ success: false, error: "User not found" }, 404);
         }
 
-        return c.json({ success: true, user });
+        const {
+            avatarKey,
+            statsVisibility,
+            searchable,
+            availability,
+            availabilityExpiresAt,
+            quietHoursStart,
+            quietHoursEnd,
+            quietHoursMode,
+            ...profile
+        } = user;
+        return c.json({
+            success: true,
+            user: {
+                ...profile,
+                avatarUrl: getAvatarUrl(c, avatarKey),
+                availability: formatAvailability({ availability, availabilityExpiresAt }),
+                privacy: { statsVisibility, searchable },
+                quietHours:
+                    quietHoursStart && quietHoursEnd
+                        ? { start: quietHoursStart, end: quietHoursEnd, mode: quietHoursMode }
+                        : null,
+            },
+        });
     } catch (error) {
         console.error("Get Profile Error:", error);
         return c.json({ success: false, error: "Failed to get profile" }, 500);
@@ -56,7 +194,15 @@ app.patch(
     zValidator("json", updateProfileSchema),
     async (c) => {
         const userId = c.get("jwtPayload").id;
-        const { username, fullName } = c.req.valid("json");
+        const {
+            username,
+            fullName,
+            statsVisibility,
+            searchable,
+            timezone,
+            quietHours,
+            locale,
+        } = c.req.valid("json");
         const db = c.get("db");
 
         try {
@@ -77,6 +223,15 @@ app.patch(
                 .set({
                     ...(username && { username }),
                     ...(fullName && { fullName }),
+                    ...(statsVisibility && { statsVisibility }),
+                    ...(searchable !== undefined && { searchable }),
+                    ...(timezone && { timezone }),
+                    ...(quietHours !== undefined && {
+                        quietHoursStart: quietHours?.start ?? null,
+                        quietHoursEnd: quietHours?.end ?? null,
+                        quietHoursMode: quietHours?.mode ?? "silent",
+                    }),
+                    ...(locale !== undefined && { locale }),
                 })
                 .where(eq(users.id, userId));
 
@@ -88,6 +243,372 @@ app.patch(
     }
 );
 
+// Set the availability status shown to friends
+// Anything other than 'available' stops session notifications; 'do_not_disturb' stops all pushes.
+app.patch(
+    "/status",
+    jwtMiddleware,
+    zValidator("json", updateStatusSchema),
+    async (c) => {
+        const userId = c.get("jwtPayload").id;
+        const { status, expiresInMinutes } = c.req.valid("json");
+        const db = c.get("db");
+
+        const availabilityExpiresAt =
+            status !== "available" && expiresInMinutes
+                ? new Date(Date.now() + expiresInMinutes * 60 * 1000)
+                : null;
+
+        try {
+            await db
+                .update(users)
+                .set({ availability: status, availabilityExpiresAt })
+                .where(eq(users.id, userId));
+            console.log(`User ${userId} set status to '${status}'`);
+
+            return c.json({
+                success: true,
+                availability: formatAvailability({
+                    availability: status,
+                    availabilityExpiresAt,
+                }),
+            });
+        } catch (error) {
+            console.error("Update Status Error:", error);
+            return c.json({ success: false, error: "Failed to update status" }, 500);
+        }
+    },
+);
+
+// Per-type notification preferences
+// Every known type is returned; types never changed are enabled.
+app.get("/notification-preferences", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+
+    try {
+        const preferences = await getNotificationPreferences(db, userId);
+        return c.json({ success: true, preferences });
+    } catch (error) {
+        console.error("Get Notification Preferences Error:", error);
+        return c.json(
+            { success: false, error: "Failed to fetch notification preferences" },
+            500,
+        );
+    }
+});
+
+app.put(
+    "/notification-preferences",
+    jwtMiddleware,
+    zValidator("json", notificationPreferencesSchema),
+    async (c) => {
+        const userId = c.get("jwtPayload").id;
+        const updates = c.req.valid("json");
+        const db = c.get("db");
+
+        try {
+            await updateNotificationPreferences(db, userId, updates);
+            console.log(
+                `User ${userId} updated notification preferences: ${Object.keys(updates).join(", ")}`,
+            );
+
+            const preferences = await getNotificationPreferences(db, userId);
+            return c.json({ success: true, preferences });
+        } catch (error) {
+            console.error("Update Notification Preferences Error:", error);
+            return c.json(
+                { success: false, error: "Failed to update notification preferences" },
+                500,
+            );
+        }
+    },
+);
+
+// Upload or replace the profile picture
+// The raw image is sent as the request body with an image Content-Type.
+app.put("/profile/avatar", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+    const bucket = c.env.STORAGE;
+    const contentType = c.req.header("Content-Type");
+
+    if (!bucket) {
+        console.error("R2 binding 'STORAGE' not found for avatars.");
+        return c.json({ success: false, error: "Server configuration error" }, 500);
+    }
+
+    // Reject oversized uploads before reading the body when the size is declared
+    const declaredLength = parseInt(c.req.header("Content-Length") ?? "", 10);
+    if (declaredLength > AVATAR_MAX_BYTES) {
+        return c.json({ success: false, error: "Image is too large" }, 413);
+    }
+
+    try {
+        const body = await c.req.arrayBuffer();
+        const validationError = validateAvatarUpload(body, contentType);
+        if (validationError) {
+            return c.json({ success: false, error: validationError }, 400);
+        }
+
+        const avatarKey = await storeAvatar(db, bucket, userId, body, contentType!);
+        console.log(`User ${userId} uploaded avatar ${avatarKey}`);
+
+        return c.json({ success: true, avatarUrl: getAvatarUrl(c, avatarKey) });
+    } catch (error) {
+        console.error("Upload Avatar Error:", error);
+        return c.json({ success: false, error: "Failed to upload avatar" }, 500);
+    }
+});
+
+// Remove the profile picture
+app.delete("/profile/avatar", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+    const bucket = c.env.STORAGE;
+
+    if (!bucket) {
+        console.error("R2 binding 'STORAGE' not found for avatars.");
+        return c.json({ success: false, error: "Server configuration error" }, 500);
+    }
+
+    try {
+        const removed = await removeAvatar(db, bucket, userId);
+        if (!removed) {
+            return c.json({ success: false, error: "No avatar to remove" }, 404);
+        }
+        return c.json({ success: true, message: "Avatar removed" });
+    } catch (error) {
+        console.error("Remove Avatar Error:", error);
+        return c.json({ success: false, error: "Failed to remove avatar" }, 500);
+    }
+});
+
+// Serve an avatar image (public; keys are content-addressed so responses are cacheable)
+app.get("/avatars/:userId/:file", async (c) => {
+    const bucket = c.env.STORAGE;
+    if (!bucket) {
+        return c.json({ success: false, error: "Avatar not found" }, 404);
+    }
+
+    const object = await bucket.get(
+        `avatars/${c.req.param("userId")}/${c.req.param("file")}`,
+    );
+    if (!object) {
+        return c.json({ success: false, error: "Avatar not found" }, 404);
+    }
+
+    const headers = new Headers();
+    object.writeHttpMetadata(headers);
+    headers.set("ETag", object.httpEtag);
+    return new Response(object.body, { headers });
+});
+
+// Schedule deletion of the current user's account
+// The user can cancel by signing in again before the grace period ends.
+app.delete("/me", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+
+    try {
+        const graceDays = getDeletionGraceDays(c.env);
+        const deletionScheduledAt = await scheduleAccountDeletion(
+            db,
+            userId,
+            graceDays,
+        );
+        // Sign out everywhere; this also stops push notifications
+        await revokeAllAuthSessions(db, userId, "account_deletion");
+        await revokeAllPersonalAccessTokens(db, userId);
+        // Exports hold a copy of the user's data, so don't keep them for the grace period
+        await deleteUserDataExports(db, c.env.STORAGE, userId);
+        console.log(
+            `User ${userId} scheduled account deletion for ${deletionScheduledAt.toISOString()}`,
+        );
+
+        return c.json({
+            success: true,
+            message: `Account will be deleted in ${graceDays} days. Sign in again to cancel.`,
+            deletionScheduledAt,
+        });
+    } catch (error) {
+        console.error("Delete Account Error:", error);
+        return c.json({ success: false, error: "Failed to delete account" }, 500);
+    }
+});
+
+// Export all personal data
+// Small exports are returned directly; large ones are queued and polled.
+app.get(
+    "/me/export",
+    jwtMiddleware,
+    zValidator("query", exportQuerySchema),
+    async (c) => {
+        const userId = c.get("jwtPayload").id;
+        const { format } = c.req.valid("query");
+        const db = c.get("db");
+
+        try {
+            const rowCount = await countUserExportRows(db, userId);
+
+            if (rowCount <= EXPORT_SYNC_ROW_LIMIT) {
+                const data = await collectUserData(db, userId);
+                const { body, contentType, filename } = renderUserExport(data, format);
+                return c.body(body, 200, {
+                    "Content-Type": contentType,
+                    "Content-Disposition": `attachment; filename="${filename}"`,
+                });
+            }
+
+            const bucket = c.env.STORAGE;
+            if (!bucket) {
+                console.error("R2 binding 'STORAGE' not found for large data export.");
+                return c.json(
+                    { success: false, error: "Server configuration error" },
+                    500,
+                );
+            }
+
+            const exportId = crypto.randomUUID();
+            await db.insert(dataExports).values({ id: exportId, userId, format });
+            // Generate after responding; the scheduled handler retries stragglers
+            c.executionCtx.waitUntil(processDataExport(db, bucket, exportId));
+            console.log(`Queued data export ${exportId} for user ${userId} (${rowCount} rows)`);
+
+            return c.json(
+                {
+                    success: true,
+                    exportId,
+                    status: "pending",
+                    statusUrl: `/users/me/export/${exportId}`,
+                },
+                202,
+            );
+        } catch (error) {
+            console.error("Data Export Error:", error);
+            return c.json({ success: false, error: "Failed to export data" }, 500);
+        }
+    },
+);
+
+// Poll the status of a background data export
+app.get("/me/export/:id", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const exportId = c.req.param("id");
+    const db = c.get("db");
+
+    try {
+        const job = await db.query.dataExports.findFirst({
+            where: and(
+                eq(dataExports.id, exportId),
+                eq(dataExports.userId, userId),
+            ),
+        });
+
+        if (!job) {
+            return c.json({ success: false, error: "Export not found" }, 404);
+        }
+
+        return c.json({
+            success: true,
+            export: {
+                id: job.id,
+                format: job.format,
+                status: job.status,
+                createdAt: job.createdAt,
+                completedAt: job.completedAt,
+                expiresAt: job.expiresAt,
+                downloadUrl:
+                    job.status === "completed"
+                        ? `/users/me/export/${job.id}/download`
+                        : null,
+            },
+        });
+    } catch (error) {
+        console.error("Get Data Export Error:", error);
+        return c.json({ success: false, error: "Failed to get export" }, 500);
+    }
+});
+
+// Download a finished background data export
+app.get("/me/export/:id/download", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const exportId = c.req.param("id");
+    const db = c.get("db");
+
+    try {
+        const job = await db.query.dataExports.findFirst({
+            where: and(
+                eq(dataExports.id, exportId),
+                eq(dataExports.userId, userId),
+            ),
+            columns: { status: true, objectKey: true, expiresAt: true },
+        });
+
+        if (!job || job.status !== "completed" || !job.objectKey) {
+            return c.json({ success: false, error: "Export not ready" }, 404);
+        }
+        if (job.expiresAt && job.expiresAt.getTime() <= Date.now()) {
+            return c.json({ success: false, error: "Export has expired" }, 410);
+        }
+
+        const object = await c.env.STORAGE?.get(job.objectKey);
+        if (!object) {
+            return c.json({ success: false, error: "Export file not found" }, 404);
+        }
+
+        return c.body(object.body, 200, {
+            "Content-Type": object.httpMetadata?.contentType ?? "application/octet-stream",
+            "Content-Disposition": object.httpMetadata?.contentDisposition ?? "attachment",
+        });
+    } catch (error) {
+        console.error("Download Data Export Error:", error);
+        return c.json({ success: false, error: "Failed to download export" }, 500);
+    }
+});
+
+// List registered push devices
+app.get("/devices", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const currentSessionId = c.get("jwtPayload").sid;
+    const db = c.get("db");
+
+    try {
+        const devices = await db.query.deviceTokens.findMany({
+            where: eq(deviceTokens.userId, userId),
+            columns: {
+                id: true,
+                token: true,
+                platform: true,
+                apnsEnvironment: true,
+                appVersion: true,
+                osVersion: true,
+                deviceName: true,
+                locale: true,
+                authSessionId: true,
+                lastUpdated: true,
+            },
+            orderBy: desc(deviceTokens.lastUpdated),
+        });
+
+        return c.json({
+            success: true,
+            devices: devices.map(({ authSessionId, ...device }) => ({
+                ...device,
+                // Null means the server default (APNS_ENVIRONMENT) is used
+                apnsEnvironment:
+                    device.platform === "ios"
+                        ? (device.apnsEnvironment ?? c.env.APNS_ENVIRONMENT)
+                        : null,
+                isCurrent: !!currentSessionId && authSessionId === currentSessionId,
+            })),
+        });
+    } catch (error) {
+        console.error("Get Devices Error:", error);
+        return c.json({ success: false, error: "Failed to get devices" }, 500);
+    }
+});
+
 // Register device token for push notifications
 // src/routes/user.ts - Updated POST /devices
 app.post(
@@ -96,9 +617,19 @@ app.post(
     zValidator("json", deviceTokenSchema),
     async (c) => {
         const userId = c.get("jwtPayload").id;
-        const { token, platform } = c.req.valid("json");
+        const authSessionId = c.get("jwtPayload").sid ?? null;
+        const { token, platform, ...details } = c.req.valid("json");
         const db = c.get("db");
 
+        // Details the app did not send are cleared, so an old value never outlives a reinstall
+        const deviceDetails = {
+            apnsEnvironment: platform === "ios" ? (details.apnsEnvironment ?? null) : null,
+            appVersion: details.appVersion ?? null,
+            osVersion: details.osVersion ?? null,
+            deviceName: details.deviceName ?? null,
+            locale: details.locale ?? null,
+        };
+
         try {
             // Use ON CONFLICT DO UPDATE for atomic upsert
             await db
@@ -107,6 +638,8 @@ app.post(
                     userId,
                     token,
                     platform,
+                    authSessionId, // Link the token to the signed-in session
+                    ...deviceDetails,
                     // lastUpdated is handled by default value or update clause
                 })
                 .onConflictDoUpdate({
@@ -116,6 +649,8 @@ app.post(
                         userId: userId,
                         lastUpdated: new Date(),
                         platform: platform, // Also update platform if it changed
+                        authSessionId: authSessionId,
+                        ...deviceDetails,
                     },
                 })
                 .run(); // Use run() for D1 inserts/updates
@@ -157,4 +692,480 @@ app.delete(
     }
 );
 
+// List login identities linked to the current user
+app.get("/identities", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+
+    try {
+        const [identities, user] = await Promise.all([
+            db.query.userIdentities.findMany({
+                where: eq(userIdentities.userId, userId),
+                columns: {
+                    provider: true,
+                    email: true,
+                    createdAt: true,
+                    lastUsedAt: true,
+                },
+            }),
+            db.query.users.findFirst({
+                where: eq(users.id, userId),
+                columns: { passwordHash: true },
+            }),
+        ]);
+
+        return c.json({
+            success: true,
+            identities,
+            hasPassword: !!user?.passwordHash,
+        });
+    } catch (error) {
+        console.error("Get Identities Error:", error);
+        return c.json({ success: false, error: "Failed to get identities" }, 500);
+    }
+});
+
+// Link another login identity to the current user
+app.post(
+    "/identities/link",
+    jwtMiddleware,
+    zValidator("json", linkIdentitySchema),
+    async (c) => {
+        const userId = c.get("jwtPayload").id;
+        const { provider: providerId, idToken } = c.req.valid("json");
+        const db = c.get("db");
+
+        const provider = getIdentityProvider(c.env, providerId);
+        if (!provider) {
+            return c.json(
+                { success: false, error: `Unknown identity provider: ${providerId}` },
+                404,
+            );
+        }
+
+        try {
+            const { claims } = await verifyIdentityToken(idToken, [provider], {
+                maxTokenAge: LINK_PROOF_MAX_AGE,
+            });
+
+            // Is this provider account already linked to someone?
+            const existingIdentity = await db.query.userIdentities.findFirst({
+                where: and(
+                    eq(userIdentities.provider, provider.id),
+                    eq(userIdentities.subject, claims.subject),
+                ),
+                columns: { userId: true },
+            });
+            if (existingIdentity) {
+                if (existingIdentity.userId === userId) {
+                    return c.json({ success: true, message: "Identity already linked" });
+                }
+                return c.json(
+                    {
+                        success: false,
+                        error: "This identity is already linked to another account",
+                    },
+                    409,
+                );
+            }
+
+            // Only one identity per provider per user
+            const sameProvider = await db.query.userIdentities.findFirst({
+                where: and(
+                    eq(userIdentities.userId, userId),
+                    eq(userIdentities.provider, provider.id),
+                ),
+                columns: { id: true },
+            });
+            if (sameProvider) {
+                return c.json(
+                    {
+                        success: false,
+                        error: `A different ${provider.id} account is already linked. Unlink it first.`,
+                    },
+                    409,
+                );
+            }
+
+            await db.insert(userIdentities).values({
+                userId,
+                provider: provider.id,
+                subject: claims.subject,
+                email: claims.email,
+            });
+            console.log(`User ${userId} linked ${provider.id} identity`);
+
+            return c.json({ success: true, message: "Identity linked" });
+        } catch (error: any) {
+            console.error("Link Identity Error:", error);
+            if (error.message?.includes("Identity token verification failed")) {
+                return c.json(
+                    { success: false, error: "Invalid or expired identity token" },
+                    401,
+                );
+            }
+            // A concurrent link may still hit the unique constraint
+            if (error.message?.includes("UNIQUE constraint failed")) {
+                return c.json(
+                    {
+                        success: false,
+                        error: "This identity is already linked to another account",
+                    },
+                    409,
+                );
+            }
+            return c.json({ success: false, error: "Failed to link identity" }, 500);
+        }
+    },
+);
+
+// Unlink a login identity from the current user
+app.delete("/identities/:provider", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const providerId = c.req.param("provider");
+    const db = c.get("db");
+
+    try {
+        const [identities, user] = await Promise.all([
+            db.query.userIdentities.findMany({
+                where: eq(userIdentities.userId, userId),
+                columns: { id: true, provider: true },
+            }),
+            db.query.users.findFirst({
+                where: eq(users.id, userId),
+                columns: { passwordHash: true },
+            }),
+        ]);
+
+        const identity = identities.find((i) => i.provider === providerId);
+        if (!identity) {
+            return c.json({ success: false, error: "Identity not found" }, 404);
+        }
+
+        // Never leave the account without a way to sign in
+        const remainingMethods = countUsableSignInMethods(
+            c.env,
+            !!user?.passwordHash,
+            identities.filter((i) => i.id !== identity.id),
+        );
+        if (remainingMethods < 1) {
+            return c.json(
+                { success: false, error: "Cannot remove your last sign-in method" },
+                400,
+            );
+        }
+
+        await db.delete(userIdentities).where(eq(userIdentities.id, identity.id));
+        console.log(`User ${userId} unlinked ${providerId} identity`);
+
+        return c.json({ success: true, message: "Identity unlinked" });
+    } catch (error) {
+        console.error("Unlink Identity Error:", error);
+        return c.json({ success: false, error: "Failed to unlink identity" }, 500);
+    }
+});
+
+// List active login sessions (signed-in devices) of the current user
+app.get("/sessions", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const currentSessionId = c.get("jwtPayload").sid;
+    const db = c.get("db");
+
+    try {
+        const sessions = await db.query.authSessions.findMany({
+            where: and(
+                eq(authSessions.userId, userId),
+                isNull(authSessions.revokedAt),
+                sql`${authSessions.expiresAt} > unixepoch()`,
+            ),
+            columns: {
+                id: true,
+                userAgent: true,
+                createdAt: true,
+                lastUsedAt: true,
+            },
+            with: {
+                deviceTokens: {
+                    columns: {
+                        token: true,
+                        platform: true,
+                        lastUpdated: true,
+                    },
+                    orderBy: desc(deviceTokens.lastUpdated),
+                    limit: 1, // One push token per device
+                },
+            },
+            orderBy: desc(authSessions.lastUsedAt),
+        });
+
+        const formattedSessions = sessions.map((session) => {
+            const pushToken = session.deviceTokens[0] ?? null;
+            return {
+                id: session.id,
+                platform: pushToken?.platform ?? null,
+                userAgent: session.userAgent,
+                createdAt: session.createdAt,
+                lastSeenAt: session.lastUsedAt,
+                isCurrent: session.id === currentSessionId,
+                pushToken,
+            };
+        });
+
+        return c.json({ success: true, sessions: formattedSessions });
+    } catch (error) {
+        console.error("Get Sessions Error:", error);
+        return c.json({ success: false, error: "Failed to get sessions" }, 500);
+    }
+});
+
+// Sign out a specific device remotely
+app.delete("/sessions/:id", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const sessionId = c.req.param("id");
+    const db = c.get("db");
+
+    try {
+        const session = await db.query.authSessions.findFirst({
+            where: and(
+                eq(authSessions.id, sessionId),
+                eq(authSessions.userId, userId), // Only your own sessions
+            ),
+            columns: { id: true, revokedAt: true },
+        });
+
+        if (!session || session.revokedAt) {
+            return c.json({ success: false, error: "Session not found" }, 404);
+        }
+
+        // Also removes the push token registered from that device
+        await revokeAuthSession(db, sessionId, "remote_signout");
+        console.log(`User ${userId} revoked session ${sessionId}`);
+
+        return c.json({ success: true, message: "Session revoked" });
+    } catch (error) {
+        console.error("Revoke Session Error:", error);
+        return c.json({ success: false, error: "Failed to revoke session" }, 500);
+    }
+});
+
+// List personal access tokens of the current user (secrets are never returned)
+app.get("/tokens", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const db = c.get("db");
+
+    try {
+        const tokens = await db.query.personalAccessTokens.findMany({
+            where: and(
+                eq(personalAccessTokens.userId, userId),
+                isNull(personalAccessTokens.revokedAt),
+            ),
+            columns: {
+                id: true,
+                name: true,
+                scopes: true,
+                createdAt: true,
+                lastUsedAt: true,
+                expiresAt: true,
+            },
+            orderBy: desc(personalAccessTokens.createdAt),
+        });
+
+        return c.json({
+            success: true,
+            tokens: tokens.map((token) => ({
+                ...token,
+                isExpired: !!token.expiresAt && token.expiresAt.getTime() <= Date.now(),
+            })),
+        });
+    } catch (error) {
+        console.error("Get Tokens Error:", error);
+        return c.json({ success: false, error: "Failed to get tokens" }, 500);
+    }
+});
+
+// Create a scoped personal access token for widgets, Shortcuts and other integrations
+// Only the app JWT can create tokens, so a token cannot mint new tokens.
+app.post(
+    "/tokens",
+    jwtMiddleware,
+    zValidator("json", createTokenSchema),
+    async (c) => {
+        const userId = c.get("jwtPayload").id;
+        const { name, scopes, expiresInDays } = c.req.valid("json");
+        const db = c.get("db");
+
+        try {
+            const activeCount = await db.$count(
+                personalAccessTokens,
+                and(
+                    eq(personalAccessTokens.userId, userId),
+                    isNull(personalAccessTokens.revokedAt),
+                ),
+            );
+            if (activeCount >= MAX_ACTIVE_TOKENS) {
+                return c.json(
+                    {
+                        success: false,
+                        error: `You can have at most ${MAX_ACTIVE_TOKENS} access tokens`,
+                    },
+                    400,
+                );
+            }
+
+            const { id, token, expiresAt } = await createPersonalAccessToken(
+                db,
+                userId,
+                { name, scopes, expiresInDays },
+            );
+            console.log(`User ${userId} created access token ${id}`);
+
+            return c.json(
+                {
+                    success: true,
+                    message: "Copy this token now, it will not be shown again",
+                    token, // Only returned once
+                    accessToken: { id, name, scopes, expiresAt },
+                },
+                201,
+            );
+        } catch (error) {
+            console.error("Create Token Error:", error);
+            return c.json({ success: false, error: "Failed to create token" }, 500);
+        }
+    },
+);
+
+// Revoke a personal access token
+app.delete("/tokens/:id", jwtMiddleware, async (c) => {
+    const userId = c.get("jwtPayload").id;
+    const tokenId = c.req.param("id");
+    const db = c.get("db");
+
+    try {
+        const revoked = await db
+            .update(personalAccessTokens)
+            .set({ revokedAt: new Date() })
+            .where(
+                and(
+                    eq(personalAccessTokens.id, tokenId),
+                    eq(personalAccessTokens.userId, userId), // Only your own tokens
+                    isNull(personalAccessTokens.revokedAt),
+                ),
+            )
+            .returning({ id: personalAccessTokens.id });
+
+        if (revoked.length === 0) {
+            return c.json({ success: false, error: "Token not found" }, 404);
+        }
+        console.log(`User ${userId} revoked access token ${tokenId}`);
+
+        return c.json({ success: true, message: "Token revoked" });
+    } catch (error) {
+        console.error("Revoke Token Error:", error);
+        return c.json({ success: false, error: "Failed to revoke token" }, 500);
+    }
+});
+
+// Public profile of another user, by numeric ID or username
+// Registered last so it does not shadow the fixed routes above. Strangers can
+// only look up users by username, and only users who appear in search, so
+// the sequential IDs cannot be walked to list every account.
+app.get("/:idOrUsername", jwtMiddleware, rateLimit("search"), async (c) => {
+    const viewerId = c.get("jwtPayload").id;
+    const idOrUsername = c.req.param("idOrUsername");
+    const db = c.get("db");
+    const byId = /^\d+$/.test(idOrUsername);
+
+    try {
+        const user = await db.query.users.findFirst({
+            where: and(
+                byId
+                    ? eq(users.id, parseInt(idOrUsername, 10))
+                    : eq(users.username, idOrUsername),
+                isNull(users.deletionScheduledAt),
+                isNull(users.suspendedAt),
+            ),
+            columns: {
+                id: true,
+                username: true,
+                fullName: true,
+                avatarKey: true,
+                createdAt: true,
+                statsVisibility: true,
+                searchable: true,
+            },
+        });
+        if (!user) {
+            return c.json({ success: false, error: "User not found" }, 404);
+        }
+
+        const isSelf = user.id === viewerId;
+        const friendship = isSelf ? undefined : await findFriendship(db, viewerId, user.id);
+        // Friends and pending requests stay visible either way
+        if (!isSelf && !friendship && (byId || !user.searchable)) {
+            return c.json({ success: false, error: "User not found" }, 404);
+        }
+
+        const [viewerFriendIds, userFriendIds] = await Promise.all([
+            getFriendIds(db, viewerId),
+            getFriendIds(db, user.id),
+        ]);
+        const { status, direction } = describeFriendship(friendship, viewerId);
+        const viewerFriends = new Set(viewerFriendIds);
+        const mutualFriendCount = isSelf
+            ? 0
+            : userFriendIds.filter((id) => viewerFriends.has(id)).length;
+
+        const canSeeStats =
+            isSelf ||
+            user.statsVisibility === "everyone" ||
+            (user.statsVisibility === "friends" && status === "accepted");
+
+        let stats = null;
+        if (canSeeStats) {
+            const monthAgo = new Date(Date.now() - 30 * 24 * 60 * 60 * 1000);
+            const [totalSessions, sessionsLast30Days, lastSession] =
+                await Promise.all([
+                    db.$count(smokingSessions, eq(smokingSessions.userId, user.id)),
+                    db.$count(
+                        smokingSessions,
+                        and(
+                            eq(smokingSessions.userId, user.id),
+                            gte(smokingSessions.startTime, monthAgo),
+                        ),
+                    ),
+                    db.query.smokingSessions.findFirst({
+                        where: eq(smokingSessions.userId, user.id),
+                        columns: { startTime: true },
+                        orderBy: desc(smokingSessions.startTime),
+                    }),
+                ]);
+            stats = {
+                totalSessions,
+                sessionsLast30Days,
+                lastSessionAt: lastSession?.startTime ?? null,
+            };
+        }
+
+        return c.json({
+            success: true,
+            user: {
+                id: user.id,
+                username: user.username,
+                fullName: user.fullName,
+                avatarUrl: getAvatarUrl(c, user.avatarKey),
+                memberSince: user.createdAt,
+                isSelf,
+                status: isSelf ? null : status,
+                direction, // Indicates who initiated if pending
+                mutualFriendCount,
+                stats, // Null when hidden by the user's privacy settings
+            },
+        });
+    } catch (error) {
+        console.error("Get Public Profile Error:", error);
+        return c.json({ success: false, error: "Failed to get profile" }, 500);
+    }
+});
+
 export default app;
\ No newline at end of file
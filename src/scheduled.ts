@@ -0,0 +1,72 @@
+// src/scheduled.ts
+import { createDbClient } from "./db";
+import { purgeScheduledDeletions } from "./lib/account";
+import { runDataExportMaintenance } from "./lib/export";
+import { purgeOldInboxNotifications } from "./lib/inbox";
+import { purgeExpiredLiveActivityTokens } from "./lib/liveActivity";
+import { runNotificationOutboxMaintenance } from "./lib/outbox";
+import { purgeExpiredRateLimitCounters } from "./lib/rateLimit";
+import type { AppEnv } from "./types";
+
+// Must match the every-minute entry in `triggers.crons`
+const OUTBOX_CRON = "* * * * *";
+
+/**
+ * Cron Trigger handler (see `triggers.crons` in wrangler.jsonc).
+ * Every minute: retries the notification outbox. Hourly: other maintenance jobs.
+ */
+export const scheduled: ExportedHandlerScheduledHandler<AppEnv["Bindings"]> = async (
+    controller,
+    env,
+) => {
+    const db = createDbClient(env.DB);
+
+    if (controller.cron === OUTBOX_CRON) {
+        try {
+            await runNotificationOutboxMaintenance(env, db);
+        } catch (error) {
+            console.error("Scheduled notification outbox run failed:", error);
+        }
+        return;
+    }
+
+    try {
+        const deletedUserIds = await purgeScheduledDeletions(db, env.STORAGE);
+        if (deletedUserIds.length > 0) {
+            console.log(
+                `Purged ${deletedUserIds.length} accounts past their deletion grace period: ${deletedUserIds.join(", ")}`,
+            );
+        }
+    } catch (error) {
+        console.error("Scheduled account purge failed:", error);
+    }
+
+    try {
+        await purgeExpiredRateLimitCounters(db);
+    } catch (error) {
+        console.error("Scheduled rate limit cleanup failed:", error);
+    }
+
+    try {
+        const purged = await purgeOldInboxNotifications(db);
+        if (purged > 0) {
+            console.log(`Purged ${purged} inbox notifications older than 90 days`);
+        }
+    } catch (error) {
+        console.error("Scheduled notification inbox cleanup failed:", error);
+    }
+
+    try {
+        await purgeExpiredLiveActivityTokens(db);
+    } catch (error) {
+        console.error("Scheduled Live Activity token cleanup failed:", error);
+    }
+
+    if (env.STORAGE) {
+        try {
+            await runDataExportMaintenance(db, env.STORAGE);
+        } catch (error) {
+            console.error("Scheduled data export maintenance failed:", error);
+        }
+    }
+};
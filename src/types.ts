@@ -1,29 +1,54 @@
 // src/types.ts
 import { Context as HonoContext } from "hono";
 import { DB } from "./db";
+import type { Locale } from "./lib/i18n";
 
 // Define the complete application environment
 export type AppEnv = {
     Bindings: {
         DB: D1Database;
+        STORAGE?: R2Bucket; // R2 bucket for data exports (exports/) and avatars (avatars/)
+        AVATAR_BASE_URL?: string; // Public URL serving the bucket's avatars/ prefix, defaults to the Worker
         JWT_SECRET: string;
         APPLE_BUNDLE_ID: string; // For Apple Sign In audience check
+        ACCOUNT_DELETION_GRACE_DAYS?: string; // Days before a deleted account is purged
+
+        // --- Rate Limiting ---
+        RATE_LIMIT_STORE?: "d1" | "memory"; // Counter storage, defaults to 'd1'
+        RATE_LIMITS?: string; // JSON overrides: { "<group>": { limit, windowSeconds, keyBy } }
+
+        // --- Additional Identity Providers ---
+        GOOGLE_CLIENT_ID?: string; // Comma-separated Google OAuth client IDs
+        OIDC_PROVIDERS?: string; // JSON: { "<id>": { issuer, jwksUrl, audience } }
+
+        // --- Local Identity Provider (development only) ---
+        ENVIRONMENT?: "development" | "production"; // Anything but 'development' is treated as production
+        LOCAL_IDP_JWKS?: string; // Public JWKS (JSON) trusted in place of Apple's keys
+        LOCAL_IDP_ISSUER?: string; // Optional issuer override for local tokens
 
         // --- APNS Configuration ---
         APNS_KEY_ID: string; // Your APNS Auth Key ID
         APNS_TEAM_ID: string; // Your Apple Developer Team ID
         APNS_PRIVATE_KEY_BASE64: string; // Base64 encoded content of your .p8 private key file
-        APNS_ENVIRONMENT: "development" | "production"; // 'development' for sandbox, 'production' for production
+        APNS_ENVIRONMENT: "development" | "production"; // Default for devices that don't report their build's environment
+        APNS_HOST?: string; // Overrides the Apple APNS host, e.g. a local mock server for testing
+        APNS_TOKEN_CACHE?: KVNamespace; // Shares the APNS provider token between isolates
+
+        // --- FCM Configuration (Android) ---
+        FCM_SERVICE_ACCOUNT_BASE64?: string; // Base64 encoded Firebase service account JSON
+        FCM_HOST?: string; // Overrides https://fcm.googleapis.com, e.g. a local stub for testing
     };
     Variables: {
         db: DB;
+        locale: Locale; // Negotiated from Accept-Language, see localizeErrors
         jwtPayload: {
             id: number; // Your internal user ID
+            sid?: string; // Auth session ID (absent on legacy tokens, which are rejected)
+            pat?: string; // Personal access token ID, set instead of `sid`
+            scopes?: string[]; // Scopes of a personal access token
             exp: number;
             [key: string]: any;
         };
-        // Optional: Cache the APNS token briefly if needed
-        apnsAuthToken?: { token: string; expires: number };
     };
 };
 
@@ -0,0 +1,59 @@
+// test/account.test.ts
+import { env } from "cloudflare:test";
+import { describe, expect, it } from "vitest";
+import { dataExports } from "../src/db/schema";
+import { purgeScheduledDeletions } from "../src/lib/account";
+import { deleteUserDataExports } from "../src/lib/export";
+import { createTestUser, testDb } from "./helpers";
+
+/**
+ * Stores a finished export archive for the user in R2.
+ * @returns The archive's object key.
+ */
+const createExport = async (userId: number): Promise<string> => {
+    const objectKey = `exports/${userId}/${crypto.randomUUID()}.zip`;
+    await env.STORAGE!.put(objectKey, "archive");
+    await testDb().insert(dataExports).values({
+        id: crypto.randomUUID(),
+        userId,
+        format: "json",
+        status: "completed",
+        objectKey,
+    });
+    return objectKey;
+};
+
+describe("purgeScheduledDeletions", () => {
+    it("removes the avatars and export archives of deleted users", async () => {
+        const avatarKey = `avatars/${crypto.randomUUID()}.jpg`;
+        await env.STORAGE!.put(avatarKey, "avatar");
+        const due = await createTestUser({
+            avatarKey,
+            deletionScheduledAt: new Date(Date.now() - 1000),
+        });
+        const pending = await createTestUser({
+            deletionScheduledAt: new Date(Date.now() + 60 * 60 * 1000),
+        });
+        const dueExport = await createExport(due);
+        const pendingExport = await createExport(pending);
+
+        const deleted = await purgeScheduledDeletions(testDb(), env.STORAGE);
+
+        expect(deleted).toEqual([due]);
+        expect(await env.STORAGE!.head(avatarKey)).toBeNull();
+        expect(await env.STORAGE!.head(dueExport)).toBeNull();
+        expect(await env.STORAGE!.head(pendingExport)).not.toBeNull();
+    });
+});
+
+describe("deleteUserDataExports", () => {
+    it("removes the user's export rows and archives", async () => {
+        const userId = await createTestUser();
+        const objectKey = await createExport(userId);
+
+        await deleteUserDataExports(testDb(), env.STORAGE, userId);
+
+        expect(await env.STORAGE!.head(objectKey)).toBeNull();
+        expect(await testDb().query.dataExports.findMany({})).toEqual([]);
+    });
+});
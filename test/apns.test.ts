@@ -0,0 +1,226 @@
+// test/apns.test.ts
+import { env } from "cloudflare:test";
+import { eq } from "drizzle-orm";
+import * as jose from "jose";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deviceTokens } from "../src/db/schema";
+import {
+    type ApnsConfig,
+    type ApnsPayload,
+    ApnsClient,
+    sendPushNotifications,
+} from "../src/lib/apns";
+import {
+    apnsRequests,
+    clearMockRequests,
+    createTestUser,
+    testDb,
+    testEnv,
+} from "./helpers";
+
+const payload: ApnsPayload = {
+    aps: { alert: { title: "Test", body: "Hello" }, sound: "default" },
+    notificationType: "test",
+};
+
+const apnsConfig = (): ApnsConfig => {
+    const bindings = testEnv();
+    return {
+        keyId: bindings.APNS_KEY_ID,
+        teamId: bindings.APNS_TEAM_ID,
+        privateKeyBase64: bindings.APNS_PRIVATE_KEY_BASE64,
+        topic: bindings.APPLE_BUNDLE_ID,
+        host: bindings.APNS_HOST,
+    };
+};
+
+// Provider tokens the mock received, in order
+const providerTokens = async (): Promise<string[]> =>
+    (await apnsRequests()).map((r) => r.providerToken);
+
+beforeEach(clearMockRequests);
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe("ApnsClient provider tokens", () => {
+    it("reuses the provider token for later sends", async () => {
+        const client = new ApnsClient(apnsConfig());
+        await client.send("device-1", payload, "development");
+        await client.send("device-2", payload, "development");
+
+        const tokens = await providerTokens();
+        expect(tokens).toHaveLength(2);
+        expect(new Set(tokens).size).toBe(1);
+    });
+
+    it("signs once for concurrent sends", async () => {
+        const client = new ApnsClient(apnsConfig());
+        const result = await client.sendBatch(
+            ["device-1", "device-2", "device-3", "device-4"],
+            payload,
+            "development",
+        );
+
+        expect(result.successCount).toBe(4);
+        // ES256 signatures are randomized, so each signing yields a distinct token
+        expect(new Set(await providerTokens()).size).toBe(1);
+    });
+
+    it("signs a new provider token after 50 minutes", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        const client = new ApnsClient(apnsConfig());
+        await client.send("device-1", payload, "development");
+
+        vi.setSystemTime(Date.now() + 49 * 60 * 1000);
+        await client.send("device-2", payload, "development");
+        vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+        await client.send("device-3", payload, "development");
+
+        const [first, second, third] = await providerTokens();
+        expect(second).toBe(first);
+        expect(third).not.toBe(first);
+        expect(jose.decodeJwt(third).iat).toBeGreaterThan(jose.decodeJwt(first).iat!);
+    });
+
+    it("replaces a provider token APNS reports as expired", async () => {
+        const client = new ApnsClient(apnsConfig());
+        const result = await client.send("expired-jwt-1", payload, "development");
+        await client.send("device-1", payload, "development");
+
+        expect(result).toMatchObject({
+            success: false,
+            status: 403,
+            reason: "ExpiredProviderToken",
+            invalidToken: false,
+            retryable: true,
+        });
+        const [rejected, replacement] = await providerTokens();
+        expect(replacement).not.toBe(rejected);
+    });
+
+    it("shares the provider token between clients through KV", async () => {
+        const first = new ApnsClient(apnsConfig(), env.APNS_TOKEN_CACHE);
+        const second = new ApnsClient(apnsConfig(), env.APNS_TOKEN_CACHE);
+        await first.send("device-1", payload, "development");
+        await second.send("device-2", payload, "development");
+
+        const tokens = await providerTokens();
+        expect(tokens[1]).toBe(tokens[0]);
+    });
+
+    it("drops an expired provider token from KV", async () => {
+        const first = new ApnsClient(apnsConfig(), env.APNS_TOKEN_CACHE);
+        await first.send("expired-jwt-1", payload, "development");
+
+        const second = new ApnsClient(apnsConfig(), env.APNS_TOKEN_CACHE);
+        await second.send("device-1", payload, "development");
+
+        const [rejected, replacement] = await providerTokens();
+        expect(replacement).not.toBe(rejected);
+    });
+});
+
+describe("ApnsClient Live Activities", () => {
+    it("sends Live Activity updates on their own topic", async () => {
+        const client = new ApnsClient(apnsConfig());
+        await client.send(
+            "activity-1",
+            { aps: { timestamp: 1, event: "update", "content-state": {} } },
+            "development",
+        );
+
+        const [request] = await apnsRequests();
+        expect(request.topic).toBe(`${env.APPLE_BUNDLE_ID}.push-type.liveactivity`);
+        expect(request.pushType).toBe("liveactivity");
+    });
+});
+
+describe("sendPushNotifications", () => {
+    it("signs the provider token with the configured key", async () => {
+        await sendPushNotifications(testEnv(), ["device-1"], payload);
+
+        const [request] = await apnsRequests();
+        expect(jose.decodeProtectedHeader(request.providerToken)).toMatchObject({
+            alg: "ES256",
+            kid: "MOCKKEY123",
+        });
+        expect(jose.decodeJwt(request.providerToken).iss).toBe("MOCKTEAM12");
+        expect(request.topic).toBe(testEnv().APPLE_BUNDLE_ID);
+    });
+
+    it("marks rejected device tokens as invalid", async () => {
+        const { results } = await sendPushNotifications(
+            testEnv(),
+            ["unregistered-1", "bad-1", "wrong-topic-1"],
+            payload,
+        );
+
+        expect(results.map((r) => [r.reason, r.invalidToken, r.retryable])).toEqual([
+            ["Unregistered", true, false],
+            ["BadDeviceToken", true, false],
+            ["DeviceTokenNotForTopic", true, false],
+        ]);
+        expect(results[0].unregisteredAt).toBeInstanceOf(Date);
+    });
+
+    it("marks throttling and outages as retryable", async () => {
+        const { results } = await sendPushNotifications(
+            testEnv(),
+            ["throttled-1", "down-1"],
+            payload,
+        );
+
+        expect(results.map((r) => [r.status, r.invalidToken, r.retryable])).toEqual([
+            [429, false, true],
+            [503, false, true],
+        ]);
+    });
+
+    it("removes invalid tokens unless they were registered again", async () => {
+        const db = testDb();
+        const userId = await createTestUser();
+        const longAgo = new Date(Date.now() - 24 * 60 * 60 * 1000);
+        await db.insert(deviceTokens).values([
+            { userId, token: "unregistered-old", platform: "ios", lastUpdated: longAgo },
+            { userId, token: "bad-old", platform: "ios", lastUpdated: longAgo },
+            // Re-registered after APNS reported it, e.g. the app was reinstalled
+            {
+                userId,
+                token: "unregistered-renewed",
+                platform: "ios",
+                lastUpdated: new Date(Date.now() + 60 * 60 * 1000),
+            },
+            { userId, token: "device-ok", platform: "ios", lastUpdated: longAgo },
+        ]);
+
+        const result = await sendPushNotifications(
+            testEnv(),
+            ["unregistered-old", "bad-old", "unregistered-renewed", "device-ok"],
+            payload,
+        );
+
+        expect(result).toMatchObject({ successCount: 1, failureCount: 3 });
+        const remaining = await db.query.deviceTokens.findMany({
+            where: eq(deviceTokens.userId, userId),
+            columns: { token: true },
+        });
+        expect(remaining.map((t) => t.token).sort()).toEqual([
+            "device-ok",
+            "unregistered-renewed",
+        ]);
+    });
+
+    it("fails every token when APNS is not configured", async () => {
+        const result = await sendPushNotifications(
+            { ...testEnv(), APNS_KEY_ID: "" },
+            ["device-1", "device-2"],
+            payload,
+        );
+
+        expect(result.failureCount).toBe(2);
+        expect(result.results.every((r) => r.reason === "ConfigurationMissing")).toBe(true);
+        expect(await apnsRequests()).toEqual([]);
+    });
+});
@@ -0,0 +1,87 @@
+// test/auth.test.ts
+import { Hono } from "hono";
+import { describe, expect, it } from "vitest";
+import { createDbClient } from "../src/db";
+import { scheduleAccountDeletion } from "../src/lib/account";
+import {
+    createAuthSession,
+    generateAuthToken,
+    jwtMiddleware,
+    revokeAllAuthSessions,
+} from "../src/lib/auth";
+import type { AppEnv } from "../src/types";
+import { createTestUser, testDb, testEnv } from "./helpers";
+
+const JWT_SECRET = "test-secret";
+
+// A protected route behind the middleware under test
+const app = new Hono<AppEnv>()
+    .use(async (c, next) => {
+        c.set("db", createDbClient(c.env.DB));
+        await next();
+    })
+    .get("/protected", jwtMiddleware, (c) => c.json({ userId: c.get("jwtPayload").id }));
+
+const request = (token: string) =>
+    app.request(
+        "/protected",
+        { headers: { Authorization: `Bearer ${token}` } },
+        { ...testEnv(), JWT_SECRET },
+    );
+
+describe("jwtMiddleware", () => {
+    it("accepts an access token of a live session", async () => {
+        const userId = await createTestUser();
+        const { token } = await createAuthSession(testDb(), userId, JWT_SECRET);
+
+        const response = await request(token);
+
+        expect(response.status).toBe(200);
+        expect(await response.json()).toEqual({ userId });
+    });
+
+    it("rejects access tokens of revoked sessions", async () => {
+        const userId = await createTestUser();
+        const { token } = await createAuthSession(testDb(), userId, JWT_SECRET);
+        await revokeAllAuthSessions(testDb(), userId, "logout_all");
+
+        expect((await request(token)).status).toBe(401);
+    });
+
+    it("rejects access tokens of accounts scheduled for deletion", async () => {
+        const userId = await createTestUser();
+        const { token } = await createAuthSession(testDb(), userId, JWT_SECRET);
+        await scheduleAccountDeletion(testDb(), userId, 30);
+
+        const response = await request(token);
+
+        expect(response.status).toBe(401);
+        expect(await response.json()).toMatchObject({
+            error: "Account is scheduled for deletion",
+        });
+    });
+
+    it("rejects legacy access tokens without a session", async () => {
+        const userId = await createTestUser();
+        // As issued before sessions existed: no `sid`, valid for 30 days
+        const token = await generateAuthToken({ id: userId }, JWT_SECRET, 30 * 24 * 60 * 60);
+
+        const response = await request(token);
+
+        expect(response.status).toBe(401);
+        expect(response.headers.get("WWW-Authenticate")).toContain('error="invalid_token"');
+        expect(await response.json()).toMatchObject({
+            error: "Invalid or expired access token",
+        });
+    });
+
+    it("rejects expired access tokens with a challenge", async () => {
+        const userId = await createTestUser();
+        const token = await generateAuthToken({ id: userId, sid: "expired" }, JWT_SECRET, -60);
+
+        const response = await request(token);
+
+        expect(response.status).toBe(401);
+        expect(response.headers.get("WWW-Authenticate")).toContain("Bearer");
+    });
+});
@@ -0,0 +1,29 @@
+// test/env.d.ts
+/// <reference types="@cloudflare/vitest-pool-workers" />
+import type { D1Migration } from "cloudflare:test";
+import type { AppEnv } from "../src/types";
+
+type Bindings = AppEnv["Bindings"];
+
+declare module "cloudflare:test" {
+    // Bindings from wrangler.jsonc plus those added in vitest.config.ts
+    interface ProvidedEnv extends Bindings {
+        TEST_MIGRATIONS: D1Migration[];
+    }
+}
+
+declare module "vitest" {
+    // Set by test/global-setup.ts
+    export interface ProvidedContext {
+        apnsBindings: {
+            APNS_KEY_ID: string;
+            APNS_TEAM_ID: string;
+            APNS_PRIVATE_KEY_BASE64: string;
+            APNS_HOST: string;
+        };
+        fcmBindings: {
+            FCM_SERVICE_ACCOUNT_BASE64: string;
+            FCM_HOST: string;
+        };
+    }
+}
@@ -0,0 +1,146 @@
+// test/fcm.test.ts
+import { eq } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deviceTokens } from "../src/db/schema";
+import { type ApnsPayload, sendPushNotificationsToTargets } from "../src/lib/apns";
+import { FcmClient, getFcmClient, sendFcmNotifications } from "../src/lib/fcm";
+import {
+    apnsRequests,
+    clearMockRequests,
+    createTestUser,
+    fcmRequests,
+    testDb,
+    testEnv,
+} from "./helpers";
+
+const payload: ApnsPayload = {
+    aps: { alert: { title: "Test", body: "Hello" }, sound: "default" },
+    notificationType: "test",
+};
+
+// A client of its own, so cached access tokens don't leak between tests
+const createClient = (): FcmClient => {
+    const { FCM_SERVICE_ACCOUNT_BASE64, FCM_HOST } = testEnv();
+    return new FcmClient(JSON.parse(atob(FCM_SERVICE_ACCOUNT_BASE64!)), FCM_HOST);
+};
+
+beforeEach(clearMockRequests);
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe("FcmClient access tokens", () => {
+    it("reuses the access token across batches", async () => {
+        const client = createClient();
+        for (let i = 0; i < 3; i++) {
+            const result = await client.sendBatch([`device-${i}a`, `device-${i}b`], payload);
+            expect(result.successCount).toBe(2);
+        }
+
+        const { accessTokens, messages } = await fcmRequests();
+        expect(accessTokens).toHaveLength(1);
+        expect(messages).toHaveLength(6);
+        expect(messages.every((m) => m.accessToken === accessTokens[0])).toBe(true);
+    });
+
+    it("shares one token exchange between concurrent callers", async () => {
+        const client = createClient();
+        const tokens = await Promise.all([
+            client.getAccessToken(),
+            client.getAccessToken(),
+            client.getAccessToken(),
+        ]);
+
+        expect(new Set(tokens).size).toBe(1);
+        expect((await fcmRequests()).accessTokens).toHaveLength(1);
+    });
+
+    it("requests a new token shortly before the old one expires", async () => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        const client = createClient();
+        const first = await client.getAccessToken();
+
+        // The mock's tokens last 3599 seconds; they're replaced 5 minutes early
+        vi.setSystemTime(Date.now() + 54 * 60 * 1000);
+        expect(await client.getAccessToken()).toBe(first);
+        vi.setSystemTime(Date.now() + 2 * 60 * 1000);
+        expect(await client.getAccessToken()).not.toBe(first);
+
+        expect((await fcmRequests()).accessTokens).toHaveLength(2);
+    });
+
+    it("keeps one client per service account", () => {
+        expect(getFcmClient(testEnv())).toBe(getFcmClient(testEnv()));
+        expect(getFcmClient({ ...testEnv(), FCM_SERVICE_ACCOUNT_BASE64: undefined })).toBeNull();
+    });
+});
+
+describe("sendFcmNotifications", () => {
+    it("reports FCM errors per token", async () => {
+        const { results } = await sendFcmNotifications(
+            testEnv(),
+            ["device-1", "unregistered-1", "sender-mismatch-1", "throttled-1", "down-1"],
+            payload,
+        );
+
+        expect(results.map((r) => [r.token, r.success, r.invalidToken, r.retryable])).toEqual([
+            ["device-1", true, false, false],
+            ["unregistered-1", false, true, false],
+            ["sender-mismatch-1", false, true, false],
+            ["throttled-1", false, false, true],
+            ["down-1", false, false, true],
+        ]);
+    });
+
+    it("removes tokens FCM reports as unregistered", async () => {
+        const db = testDb();
+        const userId = await createTestUser();
+        await db.insert(deviceTokens).values([
+            {
+                userId,
+                token: "unregistered-android",
+                platform: "android",
+                lastUpdated: new Date(Date.now() - 60 * 60 * 1000),
+            },
+            { userId, token: "android-ok", platform: "android" },
+        ]);
+
+        await sendFcmNotifications(testEnv(), ["unregistered-android", "android-ok"], payload);
+
+        const remaining = await db.query.deviceTokens.findMany({
+            where: eq(deviceTokens.userId, userId),
+            columns: { token: true },
+        });
+        expect(remaining.map((t) => t.token)).toEqual(["android-ok"]);
+    });
+
+    it("fails every token when FCM is not configured", async () => {
+        const result = await sendFcmNotifications(
+            { ...testEnv(), FCM_SERVICE_ACCOUNT_BASE64: undefined },
+            ["device-1"],
+            payload,
+        );
+
+        expect(result.results.map((r) => r.reason)).toEqual(["ConfigurationMissing"]);
+    });
+});
+
+describe("sendPushNotificationsToTargets", () => {
+    it("sends iOS tokens through APNS and Android tokens through FCM", async () => {
+        const result = await sendPushNotificationsToTargets(
+            testEnv(),
+            [
+                { token: "ios-device", platform: "ios" },
+                { token: "android-device", platform: "android" },
+            ],
+            payload,
+        );
+
+        expect(result.successCount).toBe(2);
+        expect((await apnsRequests()).map((r) => r.token)).toEqual(["ios-device"]);
+        const { messages } = await fcmRequests();
+        expect(messages.map((m) => m.token)).toEqual(["android-device"]);
+        expect(messages[0].message.notification).toMatchObject({ title: "Test", body: "Hello" });
+    });
+});
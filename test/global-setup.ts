@@ -0,0 +1,26 @@
+// test/global-setup.ts
+// Runs in Node before the Workers pool starts: serves the mock push providers
+// on free ports and hands their bindings to the tests (see inject()).
+import type { AddressInfo } from "node:net";
+import type { TestProject } from "vitest/node";
+import { createMockApnsBindings, startMockApns } from "../scripts/mock-apns";
+import { createMockFcmBindings, startMockFcm } from "../scripts/mock-fcm";
+
+export default async function setup(project: TestProject) {
+    const apns = await startMockApns(0);
+    const fcm = await startMockFcm(0);
+
+    project.provide(
+        "apnsBindings",
+        await createMockApnsBindings((apns.address() as AddressInfo).port),
+    );
+    project.provide(
+        "fcmBindings",
+        await createMockFcmBindings((fcm.address() as AddressInfo).port),
+    );
+
+    return async () => {
+        await new Promise((resolve) => apns.close(resolve));
+        await new Promise((resolve) => fcm.close(resolve));
+    };
+}
@@ -0,0 +1,53 @@
+// test/helpers.ts
+import { env } from "cloudflare:test";
+import { inject } from "vitest";
+import type { MockApnsRequest } from "../scripts/mock-apns";
+import type { MockFcmRequests } from "../scripts/mock-fcm";
+import { createDbClient } from "../src/db";
+import { users } from "../src/db/schema";
+import type { AppEnv } from "../src/types";
+
+/**
+ * The worker's bindings pointed at the mock push providers.
+ */
+export const testEnv = (): AppEnv["Bindings"] => ({
+    ...env,
+    ...inject("apnsBindings"),
+    ...inject("fcmBindings"),
+});
+
+export const testDb = () => createDbClient(env.DB);
+
+// --- Mock Providers ---
+
+export const apnsRequests = async (): Promise<MockApnsRequest[]> =>
+    (await fetch(`${inject("apnsBindings").APNS_HOST}/requests`)).json();
+
+export const fcmRequests = async (): Promise<MockFcmRequests> =>
+    (await fetch(`${inject("fcmBindings").FCM_HOST}/requests`)).json();
+
+// Forgets what the mocks received in earlier tests
+export const clearMockRequests = async (): Promise<void> => {
+    await Promise.all([
+        fetch(`${inject("apnsBindings").APNS_HOST}/requests`, { method: "DELETE" }),
+        fetch(`${inject("fcmBindings").FCM_HOST}/requests`, { method: "DELETE" }),
+    ]);
+};
+
+// --- Fixtures ---
+
+let userCount = 0;
+
+/**
+ * Inserts a user with a unique username.
+ * @returns The new user's ID.
+ */
+export const createTestUser = async (
+    values: Partial<typeof users.$inferInsert> = {},
+): Promise<number> => {
+    const [user] = await testDb()
+        .insert(users)
+        .values({ username: `test_user_${++userCount}`, ...values })
+        .returning({ id: users.id });
+    return user.id;
+};
@@ -0,0 +1,72 @@
+// test/identity.test.ts
+import * as jose from "jose";
+import { describe, expect, it, vi } from "vitest";
+import {
+    createLocalProvider,
+    getAppleSignInProviders,
+    usernameSchema,
+    verifyIdentityToken,
+} from "../src/lib/identity";
+import { testEnv } from "./helpers";
+
+// A local identity provider key pair, as scripts/local-idp.ts keygen prints it
+const createLocalIdp = async () => {
+    const { publicKey, privateKey } = await jose.generateKeyPair("ES256", {
+        extractable: true,
+    });
+    const jwks = { keys: [{ ...(await jose.exportJWK(publicKey)), kid: "local", alg: "ES256" }] };
+    return { jwks: JSON.stringify(jwks), privateKey };
+};
+
+describe("createLocalProvider", () => {
+    it("accepts local tokens in development", async () => {
+        const { jwks, privateKey } = await createLocalIdp();
+        const env = { ...testEnv(), ENVIRONMENT: "development" as const, LOCAL_IDP_JWKS: jwks };
+        const idToken = await new jose.SignJWT({})
+            .setProtectedHeader({ alg: "ES256", kid: "local" })
+            .setIssuer("https://local-idp.teman-sebat.invalid")
+            .setAudience(env.APPLE_BUNDLE_ID)
+            .setSubject("local-user")
+            .setIssuedAt()
+            .setExpirationTime("10m")
+            .sign(privateKey);
+
+        const { provider, claims } = await verifyIdentityToken(
+            idToken,
+            getAppleSignInProviders(env),
+        );
+
+        expect(provider.id).toBe("local");
+        expect(claims.subject).toBe("local-user");
+    });
+
+    it("stays disabled outside development even when LOCAL_IDP_JWKS is set", async () => {
+        const { jwks } = await createLocalIdp();
+        const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+
+        for (const ENVIRONMENT of [undefined, "production" as const]) {
+            const env = { ...testEnv(), ENVIRONMENT, LOCAL_IDP_JWKS: jwks };
+            expect(createLocalProvider(env)).toBeNull();
+            expect(getAppleSignInProviders(env).map((p) => p.id)).toEqual(["apple"]);
+        }
+        expect(consoleError).toHaveBeenCalledWith(expect.stringContaining("LOCAL_IDP_JWKS"));
+        consoleError.mockRestore();
+    });
+});
+
+describe("usernameSchema", () => {
+    it.each(["jane.doe", "jane_doe_99", "abc"])("accepts %s", (username) => {
+        expect(usernameSchema.safeParse(username).success).toBe(true);
+    });
+
+    it.each([
+        ["a fixed /users route", "Status"],
+        ["a user ID", "12345"],
+        ["a hyphen", "jane-doe"],
+        ["a space", "jane doe"],
+        ["more than 30 characters", "a".repeat(31)],
+        ["fewer than 3 characters", "ab"],
+    ])("rejects %s", (_, username) => {
+        expect(usernameSchema.safeParse(username).success).toBe(false);
+    });
+});
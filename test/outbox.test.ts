@@ -0,0 +1,327 @@
+// test/outbox.test.ts
+import { eq, inArray } from "drizzle-orm";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { deviceTokens, notificationOutbox, notifications, users } from "../src/db/schema";
+import type { ApnsPayload } from "../src/lib/apns";
+import type { Locale } from "../src/lib/i18n";
+import { resolvePushRecipients } from "../src/lib/notifications";
+import { dispatchOutbox, enqueuePushNotifications } from "../src/lib/outbox";
+import {
+    apnsRequests,
+    clearMockRequests,
+    createTestUser,
+    fcmRequests,
+    testDb,
+    testEnv,
+} from "./helpers";
+
+const buildPayload = (locale: Locale): ApnsPayload => ({
+    aps: { alert: { title: "Friend request", body: `Hello (${locale})` }, sound: "default" },
+    notificationType: "friend_request",
+    requesterId: 1,
+});
+
+/**
+ * Creates a user with one device per token; "android-" tokens are Android devices.
+ * @returns The user's ID.
+ */
+const createUserWithDevices = async (
+    tokens: string[],
+    values: Partial<typeof users.$inferInsert> = {},
+): Promise<number> => {
+    const userId = await createTestUser(values);
+    if (tokens.length > 0) {
+        await testDb()
+            .insert(deviceTokens)
+            .values(
+                tokens.map((token) => ({
+                    userId,
+                    token,
+                    platform: token.startsWith("android-") ? ("android" as const) : ("ios" as const),
+                    lastUpdated: new Date(Date.now() - 60 * 60 * 1000),
+                })),
+            );
+    }
+    return userId;
+};
+
+// Resolves, queues and dispatches a friend request notification to `userIds`
+const notify = async (userIds: number[]) => {
+    const db = testDb();
+    const resolved = await resolvePushRecipients(db, userIds, "friend_request");
+    const queued = await enqueuePushNotifications(db, resolved, "friend_request", buildPayload);
+    const totals = await dispatchOutbox(testEnv(), db, queued.ids);
+    return { queued, totals };
+};
+
+// Resolves and queues a friend request notification to `userIds`, without sending it
+const enqueue = async (userIds: number[]) => {
+    const db = testDb();
+    const resolved = await resolvePushRecipients(db, userIds, "friend_request");
+    return enqueuePushNotifications(db, resolved, "friend_request", buildPayload);
+};
+
+const outboxRows = (userIds: number[]) =>
+    testDb().query.notificationOutbox.findMany({
+        where: inArray(notificationOutbox.userId, userIds),
+    });
+
+beforeEach(clearMockRequests);
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe("enqueuePushNotifications", () => {
+    it("records an inbox entry for every user, with or without devices", async () => {
+        const withDevice = await createUserWithDevices(["device-inbox"]);
+        const withoutDevice = await createUserWithDevices([]);
+
+        const { queued } = await notify([withDevice, withoutDevice]);
+
+        expect(queued.queuedCount).toBe(1);
+        const entries = await testDb().query.notifications.findMany({
+            where: inArray(notifications.userId, [withDevice, withoutDevice]),
+        });
+        expect(entries.map((e) => e.userId).sort()).toEqual(
+            [withDevice, withoutDevice].sort(),
+        );
+        expect(entries[0]).toMatchObject({
+            type: "friend_request",
+            title: "Friend request",
+            data: { requesterId: 1 },
+        });
+    });
+
+    it("records one inbox entry per user, however many devices", async () => {
+        const userId = await createUserWithDevices(["device-inbox-1", "device-inbox-2"]);
+
+        const { queued } = await notify([userId]);
+
+        expect(queued.queuedCount).toBe(2);
+        const entries = await testDb().query.notifications.findMany({
+            where: eq(notifications.userId, userId),
+        });
+        expect(entries).toHaveLength(1);
+        expect(entries[0]).toMatchObject({
+            type: "friend_request",
+            title: "Friend request",
+            data: { requesterId: 1 },
+        });
+    });
+
+    it("badges each push with the recipient's unread count", async () => {
+        const userId = await createUserWithDevices(["device-badge"]);
+
+        await notify([userId]);
+        await notify([userId]);
+
+        const badges = (await apnsRequests()).map((r) => r.payload.aps.badge);
+        expect(badges).toEqual([1, 2]);
+    });
+});
+
+describe("enqueuePushNotifications quiet hours", () => {
+    const overnight = {
+        quietHoursStart: "22:00",
+        quietHoursEnd: "07:00",
+        quietHoursMode: "silent" as const,
+    };
+
+    const setNow = (iso: string) => {
+        vi.useFakeTimers({ toFake: ["Date"] });
+        vi.setSystemTime(new Date(iso));
+    };
+
+    // Queues a notification and returns the single row's alert settings
+    const queuedAlert = async (userId: number) => {
+        const queued = await enqueue([userId]);
+        const [row] = await outboxRows([userId]);
+        return { queued, aps: row.payload.aps };
+    };
+
+    it.each([
+        ["22:00", "2026-06-15T15:00:00Z", true],
+        ["23:30", "2026-06-15T16:30:00Z", true],
+        ["06:59", "2026-06-15T23:59:00Z", true],
+        ["07:00", "2026-06-16T00:00:00Z", false],
+        ["21:59", "2026-06-15T14:59:00Z", false],
+    ])("silences a window across midnight at %s local time", async (_, now, quiet) => {
+        setNow(now);
+        const userId = await createUserWithDevices([`device-quiet-${now}`], {
+            ...overnight,
+            timezone: "Asia/Jakarta", // UTC+7, no DST
+        });
+
+        const { queued, aps } = await queuedAlert(userId);
+
+        expect(queued.silencedCount).toBe(quiet ? 1 : 0);
+        if (quiet) {
+            expect(aps["interruption-level"]).toBe("passive");
+            expect(aps.sound).toBeUndefined();
+        } else {
+            expect(aps["interruption-level"]).toBeUndefined();
+            expect(aps.sound).toBe("default");
+        }
+    });
+
+    it.each([
+        // 11:30 UTC is 06:30 EST, inside the window
+        ["before", "2026-03-07T11:30:00Z", true],
+        // The same UTC time is 07:30 EDT after clocks spring forward
+        ["after", "2026-03-09T11:30:00Z", false],
+    ])("follows the timezone's offset %s a DST change", async (_, now, quiet) => {
+        setNow(now);
+        const userId = await createUserWithDevices([`device-dst-${now}`], {
+            ...overnight,
+            timezone: "America/New_York",
+        });
+
+        const { queued, aps } = await queuedAlert(userId);
+
+        expect(queued.silencedCount).toBe(quiet ? 1 : 0);
+        expect(aps["interruption-level"]).toBe(quiet ? "passive" : undefined);
+    });
+
+    it.each([
+        ["an unknown", "Mars/Olympus_Mons"],
+        ["a missing", null],
+    ])("evaluates %s timezone in UTC", async (_, timezone) => {
+        // 23:00 UTC is inside the window, 06:00 in Jakarta would not be
+        setNow("2026-06-15T23:00:00Z");
+        const userId = await createUserWithDevices([`device-tz-${timezone}`], {
+            ...overnight,
+            timezone,
+        });
+
+        const { queued, aps } = await queuedAlert(userId);
+
+        expect(queued.silencedCount).toBe(1);
+        expect(aps["interruption-level"]).toBe("passive");
+    });
+
+    it("skips the push but keeps the inbox entry in skip mode", async () => {
+        setNow("2026-06-15T23:00:00Z");
+        const userId = await createUserWithDevices(["device-skip"], {
+            ...overnight,
+            quietHoursMode: "skip",
+        });
+
+        const queued = await enqueue([userId]);
+
+        expect(queued).toMatchObject({ ids: [], queuedCount: 0, skippedCount: 1 });
+        expect(await outboxRows([userId])).toEqual([]);
+        const entries = await testDb().query.notifications.findMany({
+            where: eq(notifications.userId, userId),
+        });
+        expect(entries).toHaveLength(1);
+    });
+
+    it("queues normally in skip mode outside the window", async () => {
+        setNow("2026-06-15T12:00:00Z");
+        const userId = await createUserWithDevices(["device-skip-day"], {
+            ...overnight,
+            quietHoursMode: "skip",
+        });
+
+        const { queued, aps } = await queuedAlert(userId);
+
+        expect(queued).toMatchObject({ queuedCount: 1, skippedCount: 0, silencedCount: 0 });
+        expect(aps.sound).toBe("default");
+    });
+});
+
+describe("dispatchOutbox", () => {
+    it("delivers to iOS and Android devices", async () => {
+        const userId = await createUserWithDevices(["device-ios", "android-device"]);
+
+        const { totals } = await notify([userId]);
+
+        expect(totals).toEqual({ delivered: 2, retried: 0, failed: 0 });
+        expect((await apnsRequests()).map((r) => r.token)).toEqual(["device-ios"]);
+        expect((await fcmRequests()).messages.map((m) => m.token)).toEqual([
+            "android-device",
+        ]);
+        const rows = await outboxRows([userId]);
+        expect(rows.every((r) => r.status === "delivered" && r.attempts === 1)).toBe(true);
+    });
+
+    it("sends every payload group when there are more groups than concurrent sends", async () => {
+        // Per-user badges put each user in a group of their own
+        const userIds: number[] = [];
+        for (let i = 0; i < 10; i++) {
+            userIds.push(await createUserWithDevices([`device-group-${i}`]));
+        }
+        // Give each a different number of unread entries, so no two badges match
+        for (const [i, userId] of userIds.entries()) {
+            for (let j = 0; j < i; j++) {
+                await testDb()
+                    .insert(notifications)
+                    .values({ userId, type: "friend_request", body: "Earlier", data: {} });
+            }
+        }
+
+        const { totals } = await notify(userIds);
+
+        expect(totals.delivered).toBe(10);
+        const badges = (await apnsRequests()).map((r) => r.payload.aps.badge);
+        expect(badges.sort((a, b) => a - b)).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+    });
+
+    it("reschedules retryable failures with backoff", async () => {
+        const userId = await createUserWithDevices(["throttled-device"]);
+        const before = Date.now();
+
+        const { totals } = await notify([userId]);
+
+        expect(totals).toEqual({ delivered: 0, retried: 1, failed: 0 });
+        const [row] = await outboxRows([userId]);
+        expect(row).toMatchObject({
+            status: "pending",
+            attempts: 1,
+            lastError: "TooManyRequests",
+        });
+        // Throttling waits at least a minute
+        expect(row.nextAttemptAt.getTime()).toBeGreaterThanOrEqual(before + 59 * 1000);
+
+        // Not due yet, so a dispatch of due rows leaves it alone
+        await clearMockRequests();
+        await dispatchOutbox(testEnv(), testDb());
+        expect(await apnsRequests()).toEqual([]);
+    });
+
+    it("dead-letters rejected tokens and prunes the device", async () => {
+        const userId = await createUserWithDevices(["bad-device"]);
+
+        const { totals } = await notify([userId]);
+
+        expect(totals).toEqual({ delivered: 0, retried: 0, failed: 1 });
+        const [row] = await outboxRows([userId]);
+        expect(row).toMatchObject({ status: "failed", lastError: "BadDeviceToken" });
+        const devices = await testDb().query.deviceTokens.findMany({
+            where: eq(deviceTokens.userId, userId),
+        });
+        expect(devices).toEqual([]);
+    });
+
+    it("dead-letters a row out of attempts", async () => {
+        const userId = await createTestUser();
+        const [{ id }] = await testDb()
+            .insert(notificationOutbox)
+            .values({
+                userId,
+                token: "down-device",
+                platform: "ios",
+                type: "friend_request",
+                payload: buildPayload("en"),
+                attempts: 5,
+            })
+            .returning({ id: notificationOutbox.id });
+
+        const totals = await dispatchOutbox(testEnv(), testDb(), [id]);
+
+        expect(totals).toEqual({ delivered: 0, retried: 0, failed: 1 });
+        const [row] = await outboxRows([userId]);
+        expect(row).toMatchObject({ status: "failed", attempts: 6, lastError: "ServiceUnavailable" });
+    });
+});
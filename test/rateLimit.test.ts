@@ -0,0 +1,109 @@
+// test/rateLimit.test.ts
+import { env } from "cloudflare:test";
+import { Hono } from "hono";
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createDbClient } from "../src/db";
+import { rateLimit } from "../src/lib/rateLimit";
+import type { AppEnv } from "../src/types";
+import { testEnv } from "./helpers";
+
+// A route limited to 3 hits per minute, per client IP
+const app = new Hono<AppEnv>()
+    .use(async (c, next) => {
+        c.set("db", createDbClient(c.env.DB));
+        await next();
+    })
+    .get("/limited", rateLimit("auth"), (c) => c.json({ success: true }));
+
+const RATE_LIMITS = JSON.stringify({ auth: { limit: 3, windowSeconds: 60 } });
+
+// The memory store lives as long as the isolate, so each test uses its own IP
+const request = (ip: string, store: "d1" | "memory" = "memory") =>
+    app.request(
+        "/limited",
+        { headers: { "CF-Connecting-IP": ip } },
+        { ...testEnv(), RATE_LIMITS, RATE_LIMIT_STORE: store },
+    );
+
+// Start of a one-minute window
+const WINDOW_START = Date.UTC(2026, 5, 15, 12, 0, 0);
+
+const setNow = (secondsIntoWindow: number) => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    vi.setSystemTime(WINDOW_START + secondsIntoWindow * 1000);
+};
+
+afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+});
+
+describe("rateLimit", () => {
+    it("answers 429 with Retry-After once the window is full", async () => {
+        setNow(50);
+        const remaining: (string | null)[] = [];
+        for (let i = 0; i < 3; i++) {
+            const response = await request("198.51.100.1");
+            expect(response.status).toBe(200);
+            remaining.push(response.headers.get("X-RateLimit-Remaining"));
+        }
+
+        const rejected = await request("198.51.100.1");
+
+        expect(remaining).toEqual(["2", "1", "0"]);
+        expect(rejected.status).toBe(429);
+        // 10s until the window ends, then 4 hits weigh less than 3 after another 15s
+        expect(rejected.headers.get("Retry-After")).toBe("26");
+        expect(rejected.headers.get("X-RateLimit-Reset")).toBe(
+            String(WINDOW_START / 1000 + 60),
+        );
+    });
+
+    it("weights the previous window by its overlap with the sliding window", async () => {
+        setNow(50);
+        for (let i = 0; i < 4; i++) {
+            await request("198.51.100.2");
+        }
+
+        // A third into the next window: floor(4 * 2/3) + 1 = 3 hits
+        setNow(80);
+        const admitted = await request("198.51.100.2");
+        const rejected = await request("198.51.100.2");
+
+        expect(admitted.status).toBe(200);
+        expect(admitted.headers.get("X-RateLimit-Remaining")).toBe("0");
+        expect(rejected.status).toBe(429);
+        // Room for 1 more once the previous 4 hits weigh less than 1: 40s - 15s
+        expect(rejected.headers.get("Retry-After")).toBe("26");
+
+        setNow(80 + 26);
+        expect((await request("198.51.100.2")).status).toBe(200);
+    });
+
+    it("starts over once the previous window no longer overlaps", async () => {
+        setNow(50);
+        for (let i = 0; i < 4; i++) {
+            await request("198.51.100.3");
+        }
+
+        setNow(120);
+        const response = await request("198.51.100.3");
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("X-RateLimit-Remaining")).toBe("2");
+    });
+
+    it("fails open when the store is unavailable", async () => {
+        const consoleError = vi.spyOn(console, "error").mockImplementation(() => {});
+        await env.DB.exec("DROP TABLE rate_limit_counters");
+
+        const response = await request("198.51.100.4", "d1");
+
+        expect(response.status).toBe(200);
+        expect(response.headers.get("X-RateLimit-Limit")).toBeNull();
+        expect(consoleError).toHaveBeenCalledWith(
+            "Rate limit store error for 'auth':",
+            expect.anything(),
+        );
+    });
+});
@@ -0,0 +1,5 @@
+// test/setup.ts
+import { applyD1Migrations, env } from "cloudflare:test";
+
+// Each test file gets its own D1 database; bring it up to the current schema
+await applyD1Migrations(env.DB, env.TEST_MIGRATIONS);
@@ -0,0 +1,27 @@
+import {
+    defineWorkersConfig,
+    readD1Migrations,
+} from "@cloudflare/vitest-pool-workers/config";
+
+export default defineWorkersConfig(async () => {
+    // Applied to each test file's isolated D1 database by test/setup.ts
+    const migrations = await readD1Migrations("./drizzle");
+
+    return {
+        test: {
+            // Starts the mock APNS and FCM servers the tests send to
+            globalSetup: ["./test/global-setup.ts"],
+            setupFiles: ["./test/setup.ts"],
+            poolOptions: {
+                workers: {
+                    singleWorker: true,
+                    wrangler: { configPath: "./wrangler.jsonc" },
+                    miniflare: {
+                        bindings: { TEST_MIGRATIONS: migrations },
+                        kvNamespaces: ["APNS_TOKEN_CACHE"],
+                    },
+                },
+            },
+        },
+    };
+});